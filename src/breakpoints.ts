@@ -1,18 +1,103 @@
+const parseExpression = require("@velma/solidity-parser").parse;
+
 import { LibSdbTypes } from "./types/types";
 import { LibSdbUtils } from "./utils/utils";
 import { LibSdbRuntime } from "./runtime";
+import { VariableProcessor } from "./types/variable/definition/processor";
+
+// a parameter type the way it's written in a function signature, i.e. `uint` is `uint256` and a contract is an `address`
+function canonicalType(type: string): string {
+    return type
+        .replace(/ (storage ref|storage pointer|memory|calldata)\b/g, "")
+        .replace(/\bcontract [A-Za-z0-9_$.]+/g, "address")
+        .replace(/\benum [A-Za-z0-9_$.]+/g, "uint8")
+        .replace(/\bstruct /g, "")
+        .replace(/[A-Za-z0-9_$]+\.(?=[A-Za-z_$])/g, "")
+        .replace(/\b(u?int)(?![0-9])/g, "$1256")
+        .replace(/\b(u?fixed)(?![0-9])/g, "$1128x18")
+        .replace(/\bbyte\b/g, "bytes1")
+        .replace(/\s+/g, "");
+}
+
+// splits a comma separated parameter list, leaving the commas of tuple types alone
+function parameterTypes(list: string): string[] {
+    let types: string[] = [];
+    let depth = 0;
+    let start = 0;
+    for (let i = 0; i < list.length; i++) {
+        if (list[i] === "(") {
+            depth++;
+        }
+        else if (list[i] === ")") {
+            depth--;
+        }
+        else if (list[i] === "," && depth === 0) {
+            types.push(canonicalType(list.substring(start, i)));
+            start = i + 1;
+        }
+    }
+    if (list.trim().length > 0) {
+        types.push(canonicalType(list.substring(start)));
+    }
+
+    return types;
+}
+
+function definitionParameterTypes(node: any): string[] {
+    if (node.children.length === 0 || node.children[0].name !== "ParameterList") {
+        return [];
+    }
+
+    return node.children[0].children.map((parameter) => canonicalType(parameter.attributes.type));
+}
 
 export class LibSdbBreakpoints {
     private _runtime: LibSdbRuntime;
 
     private _breakpointId: number;
 
+    public _functionBreakpoints: LibSdbTypes.FunctionBreakpoint[];
+
+    public _exceptionFilters: string[];
+
+    public _watchpoints: LibSdbTypes.Watchpoint[];
+
+    // the hook keeps one pc per breakpoint id, so every pc a function breakpoint or watchpoint stops at is registered under
+    //   an id of its own; key: the id given to the hook, `ownerId` is the breakpoint or watchpoint it was registered for
+    private _hookBreakpoints: Map<number, { ownerId: number, address: string, pc: number, isRuntime: boolean }>;
+
     constructor() {
         this._runtime = LibSdbRuntime.instance();
         this._breakpointId = 1;
+        this._functionBreakpoints = [];
+        this._exceptionFilters = ["all"];
+        this._watchpoints = [];
+        this._hookBreakpoints = new Map<number, { ownerId: number, address: string, pc: number, isRuntime: boolean }>();
+    }
+
+    private async sendHookBreakpoint(ownerId: number, address: string, pc: number, isRuntime: boolean): Promise<void> {
+        for (const entry of this._hookBreakpoints.values()) {
+            if (entry.ownerId === ownerId && entry.address === address && entry.pc === pc && entry.isRuntime === isRuntime) {
+                // registered the last time it was verified
+                return;
+            }
+        }
+
+        const id = this._breakpointId++;
+        this._hookBreakpoints.set(id, { ownerId: ownerId, address: address, pc: pc, isRuntime: isRuntime });
+        await this._runtime._interface.requestSendBreakpoint(id, address, pc, true, isRuntime);
+    }
+
+    private async clearHookBreakpoints(ownerId: number): Promise<void> {
+        for (const entry of Array.from(this._hookBreakpoints.entries())) {
+            if (entry[1].ownerId === ownerId) {
+                this._hookBreakpoints.delete(entry[0]);
+                await this._runtime._interface.requestSendBreakpoint(entry[0], "", 0, false, true);
+            }
+        }
     }
 
-    public async setBreakpoint(path: string, line: number, visible: boolean = true, originalSource: boolean = true): Promise<LibSdbTypes.Breakpoint> {
+    public async setBreakpoint(path: string, line: number, visible: boolean = true, originalSource: boolean = true, condition?: string, hitCondition?: string, logMessage?: string): Promise<LibSdbTypes.Breakpoint> {
         if (!this._runtime._files.has(path)) {
             this._runtime._files.set(path, new LibSdbTypes.File("/", path));
         }
@@ -30,6 +115,15 @@ export class LibSdbBreakpoints {
         bp.id = this._breakpointId++;
         bp.visible = visible;
         bp.originalSource = originalSource;
+        if (condition) {
+            bp.condition = condition;
+        }
+        if (hitCondition) {
+            bp.hitCondition = hitCondition;
+        }
+        if (logMessage) {
+            bp.logMessage = logMessage;
+        }
 
         if (file) {
             if (file.breakpoints.indexOf(bp) === -1) {
@@ -45,10 +139,305 @@ export class LibSdbBreakpoints {
         return bpForUI;
     }
 
+    // the reply of an evaluation in the current frame, anything that goes wrong (including a throw) comes back as an EvaluationError
+    private async evaluateInFrame(expression: string, context: string): Promise<any> {
+        let result: any;
+        try {
+            result = await new Promise<any>((resolve, reject) => {
+                // evaluate can finish without replying, e.g. when there's no step to evaluate against
+                this._runtime._evaluator.evaluate(expression, context, undefined, resolve).then(() => resolve(undefined), reject);
+            });
+        }
+        catch (e) {
+            return new LibSdbTypes.EvaluationError(LibSdbTypes.EvaluationErrorKind.Other, e.message);
+        }
+
+        if (result === undefined || result === null) {
+            return new LibSdbTypes.EvaluationError(LibSdbTypes.EvaluationErrorKind.Other, "The expression has no value.");
+        }
+
+        return result;
+    }
+
+    // a condition that can't be evaluated doesn't stop, the user is told why in the output instead
+    public async conditionMet(bp: LibSdbTypes.Breakpoint, file: LibSdbTypes.File): Promise<boolean> {
+        if (!bp.condition) {
+            return true;
+        }
+
+        const result = await this.evaluateInFrame(bp.condition, "breakpoint");
+        if (result instanceof LibSdbTypes.EvaluationError) {
+            const message = "Couldn't evaluate the breakpoint condition `" + bp.condition + "`: " + result.message;
+            this._runtime._interface.sendEvent("output", message, file.fullPath(), LibSdbUtils.getOriginalLine(bp.line, file.lineOffsets));
+            return false;
+        }
+
+        return result.value === "true";
+    }
+
+    public hitConditionMet(bp: LibSdbTypes.Breakpoint): boolean {
+        bp.hitCount++;
+
+        if (!bp.hitCondition) {
+            return true;
+        }
+
+        const match = /^\s*(==|%|>=|>)?\s*([0-9]+)\s*$/.exec(bp.hitCondition);
+        if (match === null) {
+            // we don't understand the hit condition, treat it as a normal breakpoint
+            return true;
+        }
+
+        const count = parseInt(match[2]);
+        switch (match[1]) {
+            case "%":
+                return count > 0 && bp.hitCount % count === 0;
+            case ">=":
+                return bp.hitCount >= count;
+            case ">":
+                return bp.hitCount > count;
+            case "==":
+            default:
+                return bp.hitCount === count;
+        }
+    }
+
+    public async formatLogMessage(bp: LibSdbTypes.Breakpoint): Promise<string> {
+        const template = bp.logMessage || "";
+        const expression = /\{([^{}]*)\}/g;
+        let message = "";
+        let lastIndex = 0;
+        let match: RegExpExecArray | null;
+
+        while ((match = expression.exec(template)) !== null) {
+            message += template.slice(lastIndex, match.index);
+            lastIndex = match.index + match[0].length;
+
+            // each segment gets its own evaluation in the current frame
+            const result = await this.evaluateInFrame(match[1], "logpoint");
+            message += result instanceof LibSdbTypes.EvaluationError ? "(" + result.message + ")" : result.value;
+        }
+
+        message += template.slice(lastIndex);
+
+        return message;
+    }
+
+    public resetHitCounts(): void {
+        for (const file of this._runtime._files) {
+            for (let i = 0; i < file[1].breakpoints.length; i++) {
+                file[1].breakpoints[i].hitCount = 0;
+            }
+        }
+    }
+
     public async verifyAllBreakpoints(): Promise<void> {
         for (const file of this._runtime._files) {
             await this.verifyBreakpoints(file[0]);
         }
+
+        await this.verifyFunctionBreakpoints();
+        await this.verifyWatchpoints();
+    }
+
+    public async setFunctionBreakpoint(name: string): Promise<LibSdbTypes.FunctionBreakpoint> {
+        let bp = new LibSdbTypes.FunctionBreakpoint();
+        bp.verified = false;
+        bp.name = name.trim();
+        bp.id = this._breakpointId++;
+
+        this._functionBreakpoints.push(bp);
+
+        await this.verifyFunctionBreakpoint(bp);
+
+        return bp.clone();
+    }
+
+    public async verifyFunctionBreakpoints(): Promise<void> {
+        for (let i = 0; i < this._functionBreakpoints.length; i++) {
+            await this.verifyFunctionBreakpoint(this._functionBreakpoints[i]);
+        }
+    }
+
+    private inheritsFrom(contract: LibSdbTypes.Contract, baseContract: LibSdbTypes.Contract): boolean {
+        if (contract === baseContract) {
+            return true;
+        }
+
+        for (let i = 0; i < contract.inheritedContracts.length; i++) {
+            if (this.inheritsFrom(contract.inheritedContracts[i], baseContract)) {
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    // the contract and its base contracts in the order the compiler looks functions up in, most derived first
+    private linearizedContracts(contract: LibSdbTypes.Contract): LibSdbTypes.Contract[] {
+        let contracts: LibSdbTypes.Contract[] = [];
+
+        const ids: number[] = (contract.ast && contract.ast.attributes && contract.ast.attributes.linearizedBaseContracts) || [];
+        for (let i = 0; i < ids.length; i++) {
+            for (const base of this._runtime._contractsByName.values()) {
+                if (base.ast && base.ast.id === ids[i]) {
+                    contracts.push(base);
+                    break;
+                }
+            }
+        }
+
+        if (contracts.length === 0) {
+            // without the compiler's linearization, walking the bases depth first gets the common cases right
+            const visit = (base: LibSdbTypes.Contract) => {
+                if (contracts.indexOf(base) === -1) {
+                    contracts.push(base);
+                    base.inheritedContracts.forEach(visit);
+                }
+            };
+            visit(contract);
+        }
+
+        return contracts;
+    }
+
+    // what a function breakpoint names: `Contract.function(types)` with the contract and types being optional, or a selector
+    private functionTargets(name: string): { contractName: string | null, functionName: string, parameterTypes: string[] | null }[] {
+        if (/^0x[0-9a-fA-F]{8}$/.test(name)) {
+            // a selector stands for a full signature, the contracts that dispatch it tell us which
+            const selector = name.substr(2).toLowerCase();
+            let signatures: string[] = [];
+            for (const contract of this._runtime._contractsByName.values()) {
+                for (const signature of contract.functionNames.values()) {
+                    const functionSelector = contract.functionSelectors.get(signature);
+                    if (functionSelector !== undefined && functionSelector.toLowerCase() === selector && signatures.indexOf(signature) === -1) {
+                        signatures.push(signature);
+                    }
+                }
+            }
+
+            return signatures.map((signature) => {
+                return {
+                    contractName: null,
+                    functionName: signature.substr(0, signature.indexOf("(")),
+                    parameterTypes: parameterTypes(signature.substring(signature.indexOf("(") + 1, signature.length - 1))
+                };
+            });
+        }
+
+        const match = /^(?:(.+)\.)?([A-Za-z_$][A-Za-z0-9_$]*)\s*(?:\((.*)\))?$/.exec(name);
+        if (match === null) {
+            return [];
+        }
+
+        return [{
+            contractName: match[1] === undefined ? null : match[1],
+            functionName: match[2],
+            parameterTypes: match[3] === undefined ? null : parameterTypes(match[3])
+        }];
+    }
+
+    // the implemented function definitions a contract runs for the target, functions overridden by a more derived
+    //   contract are left out
+    private findFunctionDefinitions(contract: LibSdbTypes.Contract, target: { functionName: string, parameterTypes: string[] | null }): any[] {
+        let definitions: any[] = [];
+        let signatures: string[] = [];
+
+        const bases = this.linearizedContracts(contract);
+        for (let i = 0; i < bases.length; i++) {
+            if (!bases[i].ast) {
+                continue;
+            }
+
+            const astWalker = new LibSdbUtils.AstWalker();
+            astWalker.walk(bases[i].ast, (node) => {
+                if (node.name === "FunctionDefinition") {
+                    const types = definitionParameterTypes(node);
+                    const signature = node.attributes.name + "(" + types.join(",") + ")";
+                    if (signatures.indexOf(signature) === -1 && node.attributes.implemented !== false) {
+                        signatures.push(signature);
+
+                        if (node.attributes.name === target.functionName && node.src && (target.parameterTypes === null || target.parameterTypes.join(",") === types.join(","))) {
+                            definitions.push(node);
+                        }
+                    }
+
+                    return false;
+                }
+
+                return true;
+            });
+        }
+
+        return definitions;
+    }
+
+    private async verifyFunctionBreakpoint(bp: LibSdbTypes.FunctionBreakpoint): Promise<void> {
+        const targets = this.functionTargets(bp.name);
+
+        for (const contract of this._runtime._contractsByName.values()) {
+            if (!contract.ast) {
+                continue;
+            }
+
+            // every overload the name matches gets stopped at
+            let pcs: number[] = [];
+            for (let i = 0; i < targets.length; i++) {
+                let named: string[] | null = null;
+                if (targets[i].contractName !== null) {
+                    // `Token.transfer` is whatever `transfer` is in Token, and stops in contracts that inherit it unchanged
+                    const namedContract = this._runtime._contractsByName.get(targets[i].contractName!);
+                    if (namedContract === undefined || !this.inheritsFrom(contract, namedContract)) {
+                        continue;
+                    }
+                    named = this.findFunctionDefinitions(namedContract, targets[i]).map((node) => node.src);
+                }
+
+                const definitions = this.findFunctionDefinitions(contract, targets[i]).filter((node) => named === null || named.indexOf(node.src) >= 0);
+                for (let j = 0; j < definitions.length; j++) {
+                    // the source location of the function definition maps to its entry JUMPDEST
+                    const sourceLocation = LibSdbUtils.SourceMappingDecoder.sourceLocationFromAstNode(definitions[j]);
+                    const index = LibSdbUtils.SourceMappingDecoder.toIndex(sourceLocation, contract.runtimeBytecode.srcMap);
+                    if (index === null) {
+                        continue;
+                    }
+
+                    for (const entry of contract.runtimeBytecode.pcMap.entries()) {
+                        if (entry[1].index === index) {
+                            if (pcs.indexOf(entry[0]) === -1) {
+                                pcs.push(entry[0]);
+                            }
+                            break;
+                        }
+                    }
+                }
+            }
+
+            if (pcs.length === 0) {
+                contract.runtimeBytecode.functionBreakpoints.delete(bp.id);
+                continue;
+            }
+
+            bp.verified = true;
+            contract.runtimeBytecode.functionBreakpoints.set(bp.id, pcs);
+
+            for (let i = 0; i < pcs.length; i++) {
+                for (let j = 0; j < contract.addresses.length; j++) {
+                    await this.sendHookBreakpoint(bp.id, contract.addresses[j], pcs[i], true);
+                }
+            }
+        }
+    }
+
+    public async clearFunctionBreakpoints(): Promise<void> {
+        for (let i = 0; i < this._functionBreakpoints.length; i++) {
+            for (const contract of this._runtime._contractsByName.values()) {
+                contract.runtimeBytecode.functionBreakpoints.delete(this._functionBreakpoints[i].id);
+            }
+            await this.clearHookBreakpoints(this._functionBreakpoints[i].id);
+        }
+
+        this._functionBreakpoints = [];
     }
 
     private getSmallestPC(sourceLocations: LibSdbUtils.SourceMappingDecoder.SourceLocation[], bytecode: LibSdbTypes.ContractBytecode): number | null {
@@ -132,10 +521,10 @@ export class LibSdbBreakpoints {
                     if (childPc !== null) {
                         // this contract has the breakpoint in it
                         if (bpIsRuntime) {
-                            childContract.runtimeBytecode.breakpoints.set(bp.id, pc);
+                            childContract.runtimeBytecode.breakpoints.set(bp.id, childPc);
                         }
                         else {
-                            childContract.creationBytecode.breakpoints.set(bp.id, pc);
+                            childContract.creationBytecode.breakpoints.set(bp.id, childPc);
                         }
 
                         // apply the breakpoint to existing instances of this contract
@@ -203,6 +592,231 @@ export class LibSdbBreakpoints {
         }
     }
 
+    public async setWatchpoint(expression: string, contractName?: string): Promise<LibSdbTypes.Watchpoint> {
+        if (!contractName && this._runtime._stepData !== null) {
+            const currentContract = this._runtime._contractsByAddress.get(this._runtime._stepData.contractAddress);
+            if (currentContract) {
+                contractName = currentContract.name;
+            }
+        }
+
+        let wp = new LibSdbTypes.Watchpoint();
+        wp.id = this._breakpointId++;
+        wp.expression = expression.trim();
+        wp.contractName = contractName || "";
+
+        const contract = this._runtime._contractsByName.get(wp.contractName);
+        if (contract) {
+            const detail = this.resolveStorageDetail(contract, wp.expression);
+            if (detail !== null) {
+                wp.slot = detail.position.clone();
+            }
+        }
+        wp.verified = wp.slot !== null;
+
+        this._watchpoints.push(wp);
+
+        await this.verifyWatchpoint(wp);
+
+        return wp.clone();
+    }
+
+    public async verifyWatchpoints(): Promise<void> {
+        for (let i = 0; i < this._watchpoints.length; i++) {
+            await this.verifyWatchpoint(this._watchpoints[i]);
+        }
+    }
+
+    // the hook only stops at the pcs it's given while fast stepping, so every SSTORE that could write to the watched
+    //   slot is handed to it like a breakpoint; which slot is written is checked once we get there
+    private async verifyWatchpoint(wp: LibSdbTypes.Watchpoint): Promise<void> {
+        const watchedContract = this._runtime._contractsByName.get(wp.contractName);
+        if (wp.slot === null || watchedContract === undefined) {
+            return;
+        }
+
+        for (const contract of this._runtime._contractsByName.values()) {
+            if (!this.inheritsFrom(contract, watchedContract)) {
+                continue;
+            }
+
+            for (const bytecode of [contract.creationBytecode, contract.runtimeBytecode]) {
+                for (const entry of bytecode.pcMap.entries()) {
+                    if (entry[1].opcode.name === "SSTORE") {
+                        for (let i = 0; i < contract.addresses.length; i++) {
+                            await this.sendHookBreakpoint(wp.id, contract.addresses[i], entry[0], bytecode === contract.runtimeBytecode);
+                        }
+                    }
+                }
+            }
+        }
+    }
+
+    public async clearWatchpoints(): Promise<void> {
+        for (let i = 0; i < this._watchpoints.length; i++) {
+            await this.clearHookBreakpoints(this._watchpoints[i].id);
+        }
+
+        this._watchpoints = [];
+    }
+
+    public watchpointsHit(stepData: LibSdbTypes.StepData): LibSdbTypes.Watchpoint[] {
+        const stack = stepData.vmData.stack;
+        if (!stepData.vmData.opcode || stepData.vmData.opcode.name !== "SSTORE" || stack.length < 1) {
+            return [];
+        }
+
+        const contract = this._runtime._contractsByAddress.get(stepData.contractAddress);
+        if (!contract) {
+            return [];
+        }
+
+        // the top of the stack is the slot that SSTORE is about to write to
+        const slot = stack[stack.length - 1];
+
+        return this._watchpoints.filter((wp) => {
+            const watchedContract = this._runtime._contractsByName.get(wp.contractName);
+            return wp.slot !== null && watchedContract !== undefined && this.inheritsFrom(contract, watchedContract) && wp.slot.eq(slot);
+        });
+    }
+
+    private literalValue(node: any): string | null {
+        if (node.type === "Literal") {
+            // quote string literals so mapping keys keep their exact contents, the parser gives hex numbers as strings too
+            return typeof node.value === "string" && !/^0x[0-9a-fA-F]*$/.test(node.value) ? JSON.stringify(node.value) : String(node.value);
+        }
+        else if (node.type === "UnaryExpression" && node.operator === "-" && node.argument.type === "Literal") {
+            return "-" + node.argument.value;
+        }
+
+        return null;
+    }
+
+    private resolveStorageNode(contract: LibSdbTypes.Contract, node: any): LibSdbTypes.VariableDetailType | null {
+        if (node.type === "Identifier") {
+            const variable = contract.stateVariables.find(v => v.name === node.name);
+            return variable ? variable.detail : null;
+        }
+        else if (node.type === "MemberExpression") {
+            const parent = this.resolveStorageNode(contract, node.object);
+            if (parent === null) {
+                return null;
+            }
+
+            if (!node.computed) {
+                if (parent instanceof LibSdbTypes.StructDetail && node.property.type === "Identifier") {
+                    const member = parent.members.find(m => m.name === node.property.name);
+                    return member ? member.detail : null;
+                }
+                return null;
+            }
+
+            const key = this.literalValue(node.property);
+            if (key === null) {
+                return null;
+            }
+
+            if (parent instanceof LibSdbTypes.MappingDetail) {
+                const encodedKey = LibSdbUtils.encodeMappingKey(parent.key, key);
+                if (encodedKey === null || parent.value === null) {
+                    return null;
+                }
+
+                let value = parent.value.clone();
+                const processor = new VariableProcessor(parent.variable, LibSdbUtils.mappingValuePosition(encodedKey, parent.position), 0);
+                processor.applyStoragePositions(value);
+                return value;
+            }
+            else if (parent instanceof LibSdbTypes.ArrayDetail) {
+                return parent.storageElement(parseInt(key));
+            }
+        }
+
+        return null;
+    }
+
+    private resolveStorageDetail(contract: LibSdbTypes.Contract, expression: string): LibSdbTypes.VariableDetailType | null {
+        let result: any;
+        try {
+            result = parseExpression(expression + (expression.endsWith(";") ? "" : ";"), "solidity-expression");
+        }
+        catch (e) {
+            return null;
+        }
+
+        if (result.body.length !== 1 || result.body[0].type !== "ExpressionStatement") {
+            return null;
+        }
+
+        return this.resolveStorageNode(contract, result.body[0].expression);
+    }
+
+    public setExceptionFilters(filters: string[]): void {
+        this._exceptionFilters = filters.slice();
+    }
+
+    public exceptionInfo(stepData: LibSdbTypes.StepData): LibSdbTypes.ExceptionInfo {
+        let info = new LibSdbTypes.ExceptionInfo();
+        const exception = stepData.exception;
+        const opcodeName = stepData.vmData.opcode ? stepData.vmData.opcode.name : "";
+
+        if (typeof exception === "string") {
+            info.message = exception;
+        }
+        else if (exception) {
+            info.message = exception.error || exception.message || "";
+        }
+        else {
+            info.message = "";
+        }
+
+        if (/out of gas/i.test(info.message)) {
+            info.kind = LibSdbTypes.ExceptionKind.OutOfGas;
+        }
+        else if (/revert/i.test(info.message) || opcodeName === "REVERT") {
+            info.kind = LibSdbTypes.ExceptionKind.Revert;
+            info.reason = LibSdbUtils.decodeRevertReason(stepData.vmData.stack, stepData.vmData.memory);
+        }
+        else if (/invalid opcode/i.test(info.message) || opcodeName === "INVALID") {
+            info.kind = LibSdbTypes.ExceptionKind.Assert;
+        }
+        else {
+            info.kind = LibSdbTypes.ExceptionKind.Other;
+        }
+
+        // a caller can still handle a failed message call, only the outermost call is certain to end the transaction;
+        //   exception steps don't always carry the depth, the one tracked from the steps before is the next best thing
+        let depth: number | undefined = stepData.vmData.depth;
+        if (depth === undefined && this._runtime._callDepthKnown) {
+            depth = this._runtime._callDepth;
+        }
+        info.uncaught = depth === undefined ? null : depth === 0;
+
+        return info;
+    }
+
+    public exceptionFilterMatches(info: LibSdbTypes.ExceptionInfo): boolean {
+        for (let i = 0; i < this._exceptionFilters.length; i++) {
+            switch (this._exceptionFilters[i]) {
+                case "all":
+                    return true;
+                case "uncaught":
+                    // without a call depth we can't tell, stopping beats silently running past it
+                    if (info.uncaught !== false) {
+                        return true;
+                    }
+                    break;
+                default:
+                    if (this._exceptionFilters[i] === LibSdbTypes.ExceptionKindToString(info.kind)) {
+                        return true;
+                    }
+                    break;
+            }
+        }
+
+        return false;
+    }
+
     public async clearBreakpoint(path: string, line: number): Promise<LibSdbTypes.Breakpoint | undefined> {
         const file = this._runtime._files.get(path); // TODO: handle when file isn't in this._files
 
@@ -84,7 +84,9 @@ export class LibSdbCompilationProcessor {
 
                     if (contract.evm.methodIdentifiers !== undefined) {
                         sdbContract.functionNames.clear();
+                        sdbContract.functionSelectors.clear();
                         Object.keys(contract.evm.methodIdentifiers).forEach((functionName) => {
+                            sdbContract.functionSelectors.set(functionName, contract.evm.methodIdentifiers![functionName]);
                             const pc = LibSdbUtils.GetFunctionProgramCount(contract.evm.deployedBytecode!.object, contract.evm.methodIdentifiers![functionName]);
                             if (pc !== null) {
                                 sdbContract.functionNames.set(pc, functionName);
@@ -92,6 +94,8 @@ export class LibSdbCompilationProcessor {
                         });
                     }
 
+                    sdbContract.abi = contract.abi || [];
+
                     sdbContract.creationBytecode.code = contract.evm.bytecode.object;
                     sdbContract.creationBytecode.srcMap = contract.evm.bytecode.sourceMap || "";
                     sdbContract.runtimeBytecode.code = contract.evm.deployedBytecode.object;
@@ -10,17 +10,77 @@ import { readFileSync } from "fs";
 import { join as joinPath } from "path";
 import { ContractProcessor } from "./compilation/contractProcessor";
 import { LibSdbCompilationProcessor } from "./compilation/processor";
+import { LibSdbInterpreter, UnsupportedExpressionError } from "./interpreter";
+import { BN } from "bn.js";
 //import { Variable } from "./types/barrel";
 
-/** Parse the error message thrown with a naive compile in order to determine the actual return type. This is the hacky alternative to parsing an AST. */
-const regexpReturnError = /Return argument type (.*) is not implicitly convertible to expected type \(type of first return variable\) bool./
-const matchReturnTypeFromError = message => message.match(regexpReturnError);
+// solc's standard json output, errors say where in the source they are
+type LocatedCompilerOutput = CompilerOutput & {
+    errors?: { severity: string, message: string, sourceLocation?: { file: string, start: number, end: number } }[]
+};
+
+// splits the components of a `tuple(...)` type at the commas that aren't nested in another type or a string literal
+function tupleComponents(typeString: string): string[] {
+    const inner = typeString.substring("tuple(".length, typeString.length - 1);
+    let components: string[] = [];
+    let depth = 0;
+    let start = 0;
+    let inString = false;
+    for (let i = 0; i < inner.length; i++) {
+        if (inner[i] === "\"" && inner[i - 1] !== "\\") {
+            inString = !inString;
+        }
+        else if (inString) {
+            continue;
+        }
+        else if (inner[i] === "(") {
+            depth++;
+        }
+        else if (inner[i] === ")") {
+            depth--;
+        }
+        else if (inner[i] === "," && depth === 0) {
+            components.push(inner.substring(start, i));
+            start = i + 1;
+        }
+    }
+    if (inner.length > 0) {
+        components.push(inner.substring(start));
+    }
+
+    return components;
+}
+
+// the type of a returned value from the AST's type string, i.e. `struct C.S storage ref` is returned as `struct C.S memory`
+function returnType(typeString: string): { source: string, original: string } | string {
+    let literal: RegExpExecArray | null;
+    if ((literal = /^int_const (-?)/.exec(typeString)) !== null) {
+        return literal[1] === "-" ? { source: "int256", original: "int256" } : { source: "uint256", original: "uint256" };
+    }
+    else if (typeString.startsWith("literal_string")) {
+        return { source: "string", original: "string memory" };
+    }
+    else if (/^(rational_const|mapping|function|type|tuple|magic|module)\b/.test(typeString) || typeString.indexOf("mapping(") !== -1) {
+        return "Can't return a value of type " + typeString + ".";
+    }
+
+    // copies of storage are returned in memory
+    const withoutLocation = typeString.replace(/ (storage ref|storage pointer|memory|calldata)\b/g, "");
+    const isReferenceType = /^struct /.test(withoutLocation) || /\]$/.test(withoutLocation) || withoutLocation === "string" || withoutLocation === "bytes";
+
+    return {
+        source: withoutLocation.replace(/\b(struct|contract|enum) /g, ""),
+        original: withoutLocation + (isReferenceType ? " memory" : "")
+    };
+}
 
 export class LibSdbEvaluator {
     private _runtime: LibSdbRuntime;
+    private _interpreter: LibSdbInterpreter;
 
     constructor() {
         this._runtime = LibSdbRuntime.instance();
+        this._interpreter = new LibSdbInterpreter();
     }
 
     private findArguments(frameId: number | undefined, expression: string): LibSdbTypes.Variable[] {
@@ -58,9 +118,8 @@ export class LibSdbEvaluator {
                 if (allVariables.has(identifiers[i].name)) {
                     variables.push(allVariables.get(identifiers[i].name)!);
                 }
-                else {
-                    // TODO: woah, we don't know that identifier/variable. error?
-                }
+                // anything else (state variables, functions, globals) is up to the compiler, which reports the
+                //   identifiers it doesn't know as undeclared
             }
         }
 
@@ -80,13 +139,7 @@ export class LibSdbEvaluator {
 
         const functionReference = functionName + "(" + argsRefString + ");";
 
-        const functionCode: string =
-            `
-function ` + functionName + `(` + argsString + `) returns (bool) {
-  return ` + expression + `
-}
-
-`;
+        const functionCode = this.generateFunctionCode(functionName, argsString, expression, null);
 
         let expressionFunction = new LibSdbTypes.ExpressionFunction();
         expressionFunction.name = functionName;
@@ -98,6 +151,139 @@ function ` + functionName + `(` + argsString + `) returns (bool) {
         return expressionFunction;
     }
 
+    // without return types the expression is just a statement, which is enough to find its type in the AST;
+    //   the function is internal so that structs and other types the ABI can't encode can be returned
+    private generateFunctionCode(functionName: string, argsString: string, expression: string, returnTypes: string[] | null): string {
+        const returns = returnTypes === null || returnTypes.length === 0 ? "" : ` returns (` + returnTypes.join(", ") + `)`;
+        const statement = returnTypes === null || returnTypes.length === 0 ? expression : `return ` + expression;
+
+        return `
+function ` + functionName + `(` + argsString + `) internal` + returns + ` {
+  ` + statement + `
+}
+
+`;
+    }
+
+    // the type of the expression statement in the body of the evaluation function, i.e. `uint256` or `tuple(uint256,bool)`
+    private findExpressionType(ast: any, functionName: string): string | null {
+        const astWalker = new LibSdbUtils.AstWalker();
+
+        let typeString: string | null = null;
+        astWalker.walk(ast, (node) => {
+            if (typeString !== null) {
+                return false;
+            }
+
+            if (node.name === "FunctionDefinition" && node.attributes.name === functionName) {
+                astWalker.walk(node, (node) => {
+                    if (typeString === null && node.name === "ExpressionStatement" && node.children.length > 0) {
+                        typeString = node.children[0].attributes.type;
+                    }
+                    return typeString === null;
+                });
+                return false;
+            }
+
+            return true;
+        });
+
+        return typeString;
+    }
+
+    // where the expression starts within the code of the evaluation function
+    private expressionOffset(functionCode: string): number {
+        const statementStart = functionCode.indexOf("{\n") + "{\n  ".length;
+
+        return statementStart + (functionCode.startsWith("return ", statementStart) ? "return ".length : 0);
+    }
+
+    // the parser's errors say where in the expression it failed, anything else isn't a syntax error
+    private syntaxError(error: any, expression: string): LibSdbTypes.EvaluationError | null {
+        if (error.name !== "SyntaxError" || !error.location) {
+            return null;
+        }
+
+        const start = Math.min(error.location.start.offset, expression.length);
+        const end = Math.min(error.location.end.offset, expression.length);
+
+        return new LibSdbTypes.EvaluationError(LibSdbTypes.EvaluationErrorKind.Compile, error.message, "error", { start: start, length: end - start });
+    }
+
+    // the first error (not warning) of a compile, with its location mapped back to the evaluated expression
+    private compilerError(result: LocatedCompilerOutput, file: LibSdbTypes.File, functionCode: string, expression: string): LibSdbTypes.EvaluationError | null {
+        if (result.errors === undefined) {
+            return null;
+        }
+
+        const expressionStart = file.sourceCode.indexOf(functionCode) + this.expressionOffset(functionCode);
+        for (let i = 0; i < result.errors.length; i++) {
+            const error = result.errors[i];
+            if (error.severity !== "error") {
+                continue;
+            }
+
+            const kind = /Undeclared identifier/.test(error.message) ? LibSdbTypes.EvaluationErrorKind.UnknownIdentifier : LibSdbTypes.EvaluationErrorKind.Compile;
+
+            let location: { start: number, length: number } | null = null;
+            const sourceLocation = error.sourceLocation;
+            if (sourceLocation && sourceLocation.file === file.relativePath() && sourceLocation.start >= expressionStart && sourceLocation.end <= expressionStart + expression.length) {
+                location = {
+                    start: sourceLocation.start - expressionStart,
+                    length: sourceLocation.end - sourceLocation.start
+                };
+            }
+
+            return new LibSdbTypes.EvaluationError(kind, error.message, error.severity, location);
+        }
+
+        return null;
+    }
+
+    // the hook reports the slots the evaluation wrote to with their prior values, the new values are read back
+    private async storageChanges(vmData: any): Promise<LibSdbTypes.StorageChange[]> {
+        let changes: LibSdbTypes.StorageChange[] = [];
+        const writes = vmData.storageChanges || [];
+
+        for (let i = 0; i < writes.length; i++) {
+            const address = (writes[i].address instanceof Buffer ? writes[i].address.toString("hex") : writes[i].address.toString()).replace(/^0x/, "").toLowerCase();
+            const slot = new BN(writes[i].position).toArrayLike(Buffer, "be", 32);
+            const content = await this._runtime._interface.requestStorage(address, slot);
+
+            const before = new BN(writes[i].original).toString(16, 64);
+            const after = new BN(content.value).toString(16, 64);
+            if (before !== after) {
+                changes.push(new LibSdbTypes.StorageChange(address, slot.toString("hex"), before, after));
+            }
+        }
+
+        return changes;
+    }
+
+    // reverts and running out of gas show up as an exception of the step the evaluation stopped at
+    private evaluationException(vmData: any): LibSdbTypes.EvaluationError | null {
+        if (vmData.exceptionError === undefined) {
+            return null;
+        }
+
+        // the hook sends the stack as raw words, the step data has them as numbers (like `vmStepped` does)
+        let stepData = new LibSdbTypes.StepData();
+        stepData.vmData = Object.assign({}, vmData, { stack: (vmData.stack || []).map((word) => new BN(word)) });
+        stepData.exception = vmData.exceptionError;
+        const exception = this._runtime._breakpoints.exceptionInfo(stepData);
+
+        switch (exception.kind) {
+            case LibSdbTypes.ExceptionKind.OutOfGas:
+                return new LibSdbTypes.EvaluationError(LibSdbTypes.EvaluationErrorKind.OutOfGas, exception.message || "Out of gas");
+            case LibSdbTypes.ExceptionKind.Revert:
+            case LibSdbTypes.ExceptionKind.Assert:
+                const message = exception.message || (exception.kind === LibSdbTypes.ExceptionKind.Assert ? "Invalid opcode" : "Reverted");
+                return new LibSdbTypes.EvaluationError(LibSdbTypes.EvaluationErrorKind.Revert, message + (exception.reason ? ": " + exception.reason : ""));
+            default:
+                return new LibSdbTypes.EvaluationError(LibSdbTypes.EvaluationErrorKind.Other, exception.message || "The evaluation stopped before it finished.");
+        }
+    }
+
     public generateCompilerInputSourcesForContract(contract: LibSdbTypes.Contract): CompilerInput["sources"] {
         let result: CompilerInput["sources"] = {};
         const file = this._runtime._files.get(contract.sourcePath)!;
@@ -134,13 +320,56 @@ function ` + functionName + `(` + argsString + `) returns (bool) {
         return result;
     }
 
-    public async evaluate(expression: string, context: string | undefined, frameId: number | undefined, callback): Promise<void> {
+    // storage an evaluation writes to is rolled back right away, unless it's a mutating evaluation; the changes of those
+    //   are held until the user commits or reverts them
+    public async evaluate(expression: string, context: string | undefined, frameId: number | undefined, callback, mutate: boolean = false): Promise<void> {
         if (this._runtime._stepData === null || expression === undefined || context === undefined) {
             return;
         }
 
         if (context === "hover") {
-            // TODO: implement this
+            let node: any = null;
+            try {
+                node = LibSdbInterpreter.parse(expression);
+            }
+            catch (e) {
+                // not an expression, nothing to show
+                callback();
+                return;
+            }
+
+            if (node !== null && this._interpreter.isVariableChain(node)) {
+                // plain variables and their members are read from the variable tree, no need to compile anything
+                const variable = await this._interpreter.resolveVariable(node, frameId || 0);
+                if (variable !== null) {
+                    variable.name = expression;
+                }
+                callback(variable === null ? undefined : variable);
+                return;
+            }
+        }
+
+        if (!mutate) {
+            try {
+                callback(await this._interpreter.evaluate(expression, frameId || 0));
+                return;
+            }
+            catch (e) {
+                if (!(e instanceof UnsupportedExpressionError)) {
+                    callback(this.syntaxError(e, expression) || new LibSdbTypes.EvaluationError(LibSdbTypes.EvaluationErrorKind.Other, e.message));
+                    return;
+                }
+                // function calls and the like need to be compiled and ran in the vm
+            }
+        }
+        else if (this._runtime._pendingStorageChanges !== null) {
+            callback(new LibSdbTypes.EvaluationError(LibSdbTypes.EvaluationErrorKind.Other, "Commit or revert the storage changes of the last evaluation first."));
+            return;
+        }
+
+        if (this._runtime._historyIndex !== null) {
+            // evaluation runs code in the vm, which is sitting at the live step, not the one we replayed to
+            callback(new LibSdbTypes.EvaluationError(LibSdbTypes.EvaluationErrorKind.Other, "Can't evaluate expressions while stopped at a previous step."));
             return;
         }
 
@@ -149,7 +378,15 @@ function ` + functionName + `(` + argsString + `) returns (bool) {
         let file = this._runtime._files.get(contract.sourcePath)!;
         let newFile: LibSdbTypes.File = file.clone();
 
-        const functionArgs = this.findArguments(frameId, expression);
+        let functionArgs: LibSdbTypes.Variable[];
+        try {
+            functionArgs = this.findArguments(frameId, expression);
+        }
+        catch (e) {
+            // mutating evaluations skip the interpreter, so this is where their syntax errors show up
+            callback(this.syntaxError(e, expression) || new LibSdbTypes.EvaluationError(LibSdbTypes.EvaluationErrorKind.Compile, e.message));
+            return;
+        }
         const functionInsert = this.generateFunction(expression, functionArgs);
 
         if (this._runtime._stepData !== null && this._runtime._stepData.location !== null && this._runtime._stepData.location.start !== null) {
@@ -200,40 +437,42 @@ function ` + functionName + `(` + argsString + `) returns (bool) {
                     compileInput.sources = this.generateCompilerInputSourcesForContract(contract);
                     compileInput.sources[newFile.relativePath()] = { content: newFile.sourceCode };
 
-                    let result: CompilerOutput = JSON.parse(compileStandardWrapper(JSON.stringify(compileInput)));
-
-                    let returnTypeString: string = "bool";
-                    if (result.errors !== undefined) {
-                        for (let i = 0; i < result.errors.length; i++) {
-                            const error = result.errors[i];
-                            let match = matchReturnTypeFromError(error.message);
-                            if (match) {
-                                // return type
-                                returnTypeString = match[1];
-                                const refString = `function ` + functionInsert.name + `(` + functionInsert.argsString + `) returns (bool)`;
-                                const repString = `function ` + functionInsert.name + `(` + functionInsert.argsString + `) returns (` + match[1] + `)`;
-                                newFile.sourceCode = newFile.sourceCode.replace(refString, repString);
-                                newFile.lineBreaks = LibSdbUtils.SourceMappingDecoder.getLinebreakPositions(newFile.sourceCode);
-                                compileInput.sources[newFile.relativePath()] = { content: newFile.sourceCode };
-                                result = JSON.parse(compileStandardWrapper(JSON.stringify(compileInput)));
-                                break;
-                            }
-                        }
+                    // the first compile only types the expression, the second one returns it
+                    let result: LocatedCompilerOutput = JSON.parse(compileStandardWrapper(JSON.stringify(compileInput)));
+                    let error = this.compilerError(result, newFile, functionInsert.code, expression);
+                    if (error !== null) {
+                        callback(error);
+                        return;
+                    }
+                    const expressionType = result.sources ? this.findExpressionType(result.sources[newFile.relativePath()].legacyAST, functionInsert.name) : null;
+                    if (expressionType === null) {
+                        callback(new LibSdbTypes.EvaluationError(LibSdbTypes.EvaluationErrorKind.Other, "Couldn't find the type of the expression."));
+                        return;
                     }
 
-                    // TODO: stop and respond if there is a compiler error of sometype
-                    let hadError = false;
-                    if (result.errors !== undefined) {
-                        for (let i = 0; i < result.errors.length; i++) {
-                            // check to see if any errors are not warnings
-                            if (result.errors[i].severity === "error") {
-                                console.error(result.errors[i].formattedMessage || result.errors[i].message);
-                                hadError = true;
-                            }
+                    // tuples are returned as multiple values, `tuple()` (a call to a function without returns) as none
+                    const typeStrings = expressionType.startsWith("tuple(") ? tupleComponents(expressionType) : [expressionType];
+                    let sourceTypes: string[] = [];
+                    let originalTypes: string[] = [];
+                    for (let i = 0; i < typeStrings.length; i++) {
+                        const type = returnType(typeStrings[i]);
+                        if (typeof type === "string") {
+                            callback(new LibSdbTypes.EvaluationError(LibSdbTypes.EvaluationErrorKind.Other, type));
+                            return;
                         }
+                        sourceTypes.push(type.source);
+                        originalTypes.push(type.original);
                     }
-                    if (hadError) {
-                        callback();
+
+                    const typedCode = this.generateFunctionCode(functionInsert.name, functionInsert.argsString, expression, sourceTypes);
+                    newFile.sourceCode = newFile.sourceCode.replace(functionInsert.code, typedCode);
+                    newFile.lineBreaks = LibSdbUtils.SourceMappingDecoder.getLinebreakPositions(newFile.sourceCode);
+                    compileInput.sources[newFile.relativePath()] = { content: newFile.sourceCode };
+                    result = JSON.parse(compileStandardWrapper(JSON.stringify(compileInput)));
+
+                    error = this.compilerError(result, newFile, typedCode, expression);
+                    if (error !== null) {
+                        callback(error);
                         return;
                     }
 
@@ -287,34 +526,72 @@ function ` + functionName + `(` + argsString + `) returns (bool) {
 
                         let ongoingEvaluation = new LibSdbTypes.Evaluation();
                         ongoingEvaluation.functionName = functionInsert.name;
-                        ongoingEvaluation.returnVariable.originalType = returnTypeString;
-                        // TODO: handle referenceVars in result?
+                        ongoingEvaluation.returnType = expressionType;
                         const compilationProcessor = new LibSdbCompilationProcessor();
                         const contractProcessor = new ContractProcessor(compilationProcessor, contract);
-                        ongoingEvaluation.returnVariable.applyType("default", "ParameterList", contractProcessor);
+                        for (let i = 0; i < originalTypes.length; i++) {
+                            let returnVariable = new LibSdbTypes.Variable();
+                            returnVariable.name = originalTypes.length === 1 ? expression.replace(/;$/, "") : i.toString();
+                            returnVariable.originalType = originalTypes[i];
+                            returnVariable.applyType(originalTypes[i].endsWith(" memory") ? "memory" : "default", "ParameterList", contractProcessor);
+                            ongoingEvaluation.returnVariables.push(returnVariable);
+                        }
                         ongoingEvaluation.contractAddress = this._runtime._stepData.contractAddress;
 
                         //this._runtime.continue(false, "stopOnEvalBreakpoint");
                         if (newStartPc !== null && newEndPc !== null) {
-                            const evalRequest = new LibSdbTypes.EvaluationRequest(evaluationBytecode.object, newStartPc, newEndPc, contract.runtimeBytecode.code, this._runtime._stepData.vmData.pc);
+                            const evalRequest = new LibSdbTypes.EvaluationRequest(evaluationBytecode.object, newStartPc, newEndPc, contract.runtimeBytecode.code, this._runtime._stepData.vmData.pc, true);
                             const vmData = await this._runtime._interface.requestEvaluation(evalRequest);
+                            const storageChanges = await this.storageChanges(vmData);
 
-                            ongoingEvaluation.returnVariable.position = vmData.stack.length - 1;
-        
-                            let returnValue;
-                            if (ongoingEvaluation.returnVariable.detail === null) {
-                                returnValue = null;
+                            const exception = this.evaluationException(vmData);
+                            if (exception !== null) {
+                                await this._runtime.restoreStorage(storageChanges);
+                                callback(exception);
+                                return;
+                            }
+
+                            // the returned values are at the top of the stack, the last one on top
+                            const returnVariables = ongoingEvaluation.returnVariables;
+                            let returnValues: LibSdbTypes.DecodedVariable[] = [];
+                            for (let i = 0; i < returnVariables.length; i++) {
+                                returnVariables[i].position = vmData.stack.length - returnVariables.length + i;
+                                if (returnVariables[i].detail !== null) {
+                                    returnValues.push(await returnVariables[i].detail!.decode(vmData.stack, vmData.memory, this._runtime._interface, ongoingEvaluation.contractAddress));
+                                }
+                            }
+
+                            let reply: any;
+                            if (returnVariables.length === 1) {
+                                reply = returnValues.length > 0 ? returnValues[0] : null;
                             }
                             else {
-                                returnValue = await ongoingEvaluation.returnVariable.detail.decode(vmData.stack, vmData.memory, this._runtime._interface, ongoingEvaluation.contractAddress);
+                                reply = this._runtime.addEvaluationResult(expression.replace(/;$/, ""), ongoingEvaluation.returnType, returnValues);
+                            }
+
+                            if (!mutate) {
+                                await this._runtime.restoreStorage(storageChanges);
                             }
-                            callback(returnValue);
+                            else {
+                                this._runtime._pendingStorageChanges = storageChanges.length > 0 ? storageChanges : null;
+                                reply = Object.assign({}, reply, { storageChanges: storageChanges });
+                            }
+                            callback(reply);
+                        }
+                        else {
+                            callback(new LibSdbTypes.EvaluationError(LibSdbTypes.EvaluationErrorKind.Other, "Couldn't find the program counters of the evaluation function; that's weird."));
                         }
                     }
                     else {
-                        callback("Error: Couldn't find the sourceLocation of the evaluation function; that's weird.")
+                        callback(new LibSdbTypes.EvaluationError(LibSdbTypes.EvaluationErrorKind.Other, "Couldn't find the sourceLocation of the evaluation function; that's weird."));
                     }
                 }
+                else {
+                    callback(new LibSdbTypes.EvaluationError(LibSdbTypes.EvaluationErrorKind.Other, "Couldn't find where to insert the evaluation function in contract " + contract.name + "."));
+                }
+            }
+            else {
+                callback(new LibSdbTypes.EvaluationError(LibSdbTypes.EvaluationErrorKind.Other, "The current step has no source location to evaluate at."));
             }
         }
     }
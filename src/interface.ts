@@ -21,6 +21,11 @@ export class LibSdbInterface {
         this._debuggerMessages = new Map<string, Function | undefined>();
     }
 
+    // whether the hook can skip ahead to the next breakpoint, stepping back needs every step recorded so it can't while we record
+    public fastStep(stepEvent: string): boolean {
+        return stepEvent === "stopOnBreakpoint" && !this._runtime._recordHistory;
+    }
+
     public respondToDebugHook(stepEvent: string, messageId: string, content: any = null) {
         // don't respond if we don't actually need to
         if (!this._debuggerMessages.has(messageId)) {
@@ -31,7 +36,7 @@ export class LibSdbInterface {
             if (content === null) {
                 content = {};
             }
-            content.fastStep = stepEvent === "stopOnBreakpoint";
+            content.fastStep = this.fastStep(stepEvent);
         }
 
         const response = {
@@ -92,7 +97,7 @@ export class LibSdbInterface {
         });
     }
 
-    public requestRunUntilPc(pc: number): Promise<any> {
+    public requestRunUntilPc(pc: number, recordStorage: boolean = false): Promise<any> {
         return new Promise<void>((resolve, reject) => {
             const msgId = uuidv4();
 
@@ -102,7 +107,8 @@ export class LibSdbInterface {
                 "content": {
                     "type": "runUntilPc",
                     "stepId": this._runtime._stepData!.debuggerMessageId,
-                    "pc": pc
+                    "pc": pc,
+                    "recordStorage": recordStorage
                 }
             };
 
@@ -118,13 +124,35 @@ export class LibSdbInterface {
     public async requestEvaluation(evalRequest: LibSdbTypes.EvaluationRequest): Promise<any> {
         await this.requestInjectCode(evalRequest.evaluationBytecode, evalRequest.evaluationStartPc);
 
-        const vmData = await this.requestRunUntilPc(evalRequest.evaluationEndPc);
+        const vmData = await this.requestRunUntilPc(evalRequest.evaluationEndPc, evalRequest.recordStorage);
 
         await this.requestInjectCode(evalRequest.runtimeBytecode, evalRequest.runtimePc, this._runtime._stepData!.vmData);
 
         return vmData;
     }
 
+    public async requestSetStorage(address: string, position: Buffer, value: Buffer): Promise<any> {
+        return new Promise<any>((resolve, reject) => {
+            const msgId = uuidv4();
+            const request = {
+                "id": msgId,
+                "messageType": "request",
+                "content": {
+                    "type": "setStorage",
+                    "address": address,
+                    "position": position,
+                    "value": value
+                }
+            };
+
+            this._debuggerMessages.set(msgId, resolve);
+
+            if (this.evm !== undefined) {
+                this.evm.handleMessage(request);
+            }
+        });
+    }
+
     public async requestStorage(address: any, position: any): Promise<any> {
         return new Promise<any>((resolve, reject) => {
             const msgId = uuidv4();
@@ -146,6 +174,45 @@ export class LibSdbInterface {
         });
     }
 
+    public async requestCallData(): Promise<any> {
+        return new Promise<any>((resolve, reject) => {
+            const msgId = uuidv4();
+            const request = {
+                "id": msgId,
+                "messageType": "request",
+                "content": {
+                    "type": "getCallData"
+                }
+            };
+
+            this._debuggerMessages.set(msgId, resolve);
+
+            if (this.evm !== undefined) {
+                this.evm.handleMessage(request);
+            }
+        });
+    }
+
+    public async requestGlobals(address: string): Promise<any> {
+        return new Promise<any>((resolve, reject) => {
+            const msgId = uuidv4();
+            const request = {
+                "id": msgId,
+                "messageType": "request",
+                "content": {
+                    "type": "getGlobals",
+                    "address": address
+                }
+            };
+
+            this._debuggerMessages.set(msgId, resolve);
+
+            if (this.evm !== undefined) {
+                this.evm.handleMessage(request);
+            }
+        });
+    }
+
     public async requestSendBreakpoint(id: number, address: string, pc: number, enabled: boolean, bpIsRuntime: boolean): Promise<any> {
         return new Promise<any>((resolve, reject) => {
             const msgId = uuidv4();
@@ -191,6 +258,27 @@ export class LibSdbInterface {
         });
     }
 
+    public async requestSendHashLocations(address: string, hashLocations: number[]) {
+        return new Promise<any>((resolve, reject) => {
+            const msgId = uuidv4();
+            const request = {
+                "id": msgId,
+                "messageType": "request",
+                "content": {
+                    "type": "sendHashLocations",
+                    "address": address,
+                    "hashLocations": hashLocations
+                }
+            };
+
+            this._debuggerMessages.set(msgId, resolve);
+
+            if (this.evm !== undefined) {
+                this.evm.handleMessage(request);
+            }
+        });
+    }
+
     public async requestSendFunctionJumpDestinations(address: string, jumpDestinations: number[]) {
         return new Promise<any>((resolve, reject) => {
             const msgId = uuidv4();
@@ -232,7 +320,7 @@ export class LibSdbInterface {
                     }
                     break;
                 case "setBreakpoint":
-                    const breakpoint = await this._runtime._breakpoints.setBreakpoint(data.content.path, data.content.line);
+                    const breakpoint = await this._runtime._breakpoints.setBreakpoint(data.content.path, data.content.line, true, true, data.content.condition, data.content.hitCondition, data.content.logMessage);
                     {
                         const payload = {
                             "id": data.id,
@@ -246,6 +334,96 @@ export class LibSdbInterface {
                         ws.send(message);
                     }
                     break;
+                case "setFunctionBreakpoint":
+                    const functionBreakpoint = await this._runtime._breakpoints.setFunctionBreakpoint(data.content.name);
+                    {
+                        const payload = {
+                            "id": data.id,
+                            "isRequest": false,
+                            "type": data.type,
+                            "content": {
+                                "data": functionBreakpoint
+                            }
+                        };
+                        const message = JSON.stringify(payload);
+                        ws.send(message);
+                    }
+                    break;
+                case "clearFunctionBreakpoints":
+                    await this._runtime._breakpoints.clearFunctionBreakpoints();
+                    {
+                        const payload = {
+                            "id": data.id,
+                            "isRequest": false,
+                            "type": data.type,
+                            "content": {}
+                        };
+                        const message = JSON.stringify(payload);
+                        ws.send(message);
+                    }
+                    break;
+                case "setWatchpoint":
+                    const watchpoint = await this._runtime._breakpoints.setWatchpoint(data.content.expression, data.content.contractName);
+                    {
+                        const payload = {
+                            "id": data.id,
+                            "isRequest": false,
+                            "type": data.type,
+                            "content": {
+                                "data": {
+                                    "id": watchpoint.id,
+                                    "expression": watchpoint.expression,
+                                    "contractName": watchpoint.contractName,
+                                    "slot": watchpoint.slot === null ? null : "0x" + watchpoint.slot.toString(16),
+                                    "verified": watchpoint.verified
+                                }
+                            }
+                        };
+                        const message = JSON.stringify(payload);
+                        ws.send(message);
+                    }
+                    break;
+                case "addMappingKey":
+                    const addedKey = this._runtime.addMappingKey(data.content.variablesReference, data.content.key);
+                    {
+                        const payload = {
+                            "id": data.id,
+                            "isRequest": false,
+                            "type": data.type,
+                            "content": {
+                                "data": addedKey
+                            }
+                        };
+                        const message = JSON.stringify(payload);
+                        ws.send(message);
+                    }
+                    break;
+                case "clearWatchpoints":
+                    await this._runtime._breakpoints.clearWatchpoints();
+                    {
+                        const payload = {
+                            "id": data.id,
+                            "isRequest": false,
+                            "type": data.type,
+                            "content": {}
+                        };
+                        const message = JSON.stringify(payload);
+                        ws.send(message);
+                    }
+                    break;
+                case "setExceptionBreakpoints":
+                    this._runtime._breakpoints.setExceptionFilters(data.content.filters || []);
+                    {
+                        const payload = {
+                            "id": data.id,
+                            "isRequest": false,
+                            "type": data.type,
+                            "content": {}
+                        };
+                        const message = JSON.stringify(payload);
+                        ws.send(message);
+                    }
+                    break;
                 case "stack":
                     const stack = this._runtime.stack(data.content.startFrame, data.content.endFrame);
                     {
@@ -262,72 +440,172 @@ export class LibSdbInterface {
                     }
                     break;
                 case "variables":
-                    const variables = await this._runtime.variables(data.content);
                     {
+                        // still answer the request if decoding fails, the client waits for it
+                        let variables: any[] = [];
+                        let error: string | null = null;
+                        try {
+                            variables = await this._runtime.variables(data.content, data.content.frameId);
+                        }
+                        catch (e) {
+                            error = e.message;
+                        }
+
                         const payload = {
                             "id": data.id,
                             "isRequest": false,
                             "type": data.type,
                             "content": {
-                                "data": variables
+                                "data": variables,
+                                "error": error
                             }
                         };
                         const message = JSON.stringify(payload);
                         ws.send(message);
                     }
                     break;
-                case "uiAction":
-                    let error = "";
-                    switch (data.content.action) {
-                        case "continue":
-                            this._runtime.continue();
-                            break;
-                        case "continueReverse":
-                            this._runtime.continue(true);
-                            break;
-                        case "stepOver":
-                            this._runtime.stepOver();
-                            break;
-                        case "stepBack":
-                            this._runtime.stepOver(true);
-                            break;
-                        case "stepIn":
-                            this._runtime.stepIn();
-                            break;
-                        case "stepOut":
-                            this._runtime.stepOut();
-                            break;
-                        default:
-                            error = "Unsupported Debugger Action (" + data.content.action + ")";
-                            break;
+                case "setVariableFormat":
+                    this._runtime.setVariableFormat(data.content.id, data.content.variablesReference, data.content.name, data.content.format || null);
+                    {
+                        const payload = {
+                            "id": data.id,
+                            "isRequest": false,
+                            "type": data.type,
+                            "content": {
+                                "data": true
+                            }
+                        };
+                        const message = JSON.stringify(payload);
+                        ws.send(message);
                     }
+                    break;
+                case "setStepHistory":
+                    const recording = this._runtime.setRecordHistory(data.content.enabled === true);
                     {
-                        let payload: any = {
+                        const payload = {
                             "id": data.id,
                             "isRequest": false,
                             "type": data.type,
-                            "content": {}
+                            "content": {
+                                "data": recording
+                            }
                         };
-                        if (error) {
-                            payload.error = error;
-                        }
                         const message = JSON.stringify(payload);
                         ws.send(message);
                     }
                     break;
-                case "evaluate":
-                    this._runtime._evaluator.evaluate(data.content.expression, data.content.context, data.content.frameId, (reply) => {
+                case "commitEvaluation":
+                    const committed = this._runtime.commitEvaluation();
+                    {
                         const payload = {
                             "id": data.id,
                             "isRequest": false,
                             "type": data.type,
                             "content": {
-                                "data": reply
+                                "data": committed
                             }
                         };
                         const message = JSON.stringify(payload);
                         ws.send(message);
-                    });
+                    }
+                    break;
+                case "revertEvaluation":
+                    const reverted = await this._runtime.revertEvaluation();
+                    {
+                        const payload = {
+                            "id": data.id,
+                            "isRequest": false,
+                            "type": data.type,
+                            "content": {
+                                "data": reverted
+                            }
+                        };
+                        const message = JSON.stringify(payload);
+                        ws.send(message);
+                    }
+                    break;
+                case "uiAction":
+                    let error = "";
+                    if (this._runtime._pendingStorageChanges !== null) {
+                        // the changes of a mutating evaluation have to be kept or rolled back before execution moves on
+                        error = "Commit or revert the storage changes of the last evaluation first";
+                    }
+                    else if (!this._runtime._recordHistory && ["continueReverse", "stepBack", "stepInBack", "stepOutBack"].indexOf(data.content.action) >= 0) {
+                        error = "Step history isn't being recorded, enable it with setStepHistory to step backwards";
+                    }
+                    else {
+                        switch (data.content.action) {
+                            case "continue":
+                                this._runtime.continue();
+                                break;
+                            case "continueReverse":
+                                this._runtime.continue(true);
+                                break;
+                            case "stepOver":
+                                this._runtime.stepOver();
+                                break;
+                            case "stepBack":
+                                this._runtime.stepOver(true);
+                                break;
+                            case "stepIn":
+                                this._runtime.stepIn();
+                                break;
+                            case "stepOut":
+                                this._runtime.stepOut();
+                                break;
+                            case "stepInBack":
+                                this._runtime.stepIn(true);
+                                break;
+                            case "stepOutBack":
+                                this._runtime.stepOut(true);
+                                break;
+                            default:
+                                error = "Unsupported Debugger Action (" + data.content.action + ")";
+                                break;
+                        }
+                    }
+                    {
+                        let payload: any = {
+                            "id": data.id,
+                            "isRequest": false,
+                            "type": data.type,
+                            "content": {}
+                        };
+                        if (error) {
+                            payload.error = error;
+                        }
+                        const message = JSON.stringify(payload);
+                        ws.send(message);
+                    }
+                    break;
+                case "evaluate":
+                    {
+                        let replied = false;
+                        const sendReply = (reply?: any) => {
+                            replied = true;
+                            const isError = reply instanceof LibSdbTypes.EvaluationError;
+                            const payload = {
+                                "id": data.id,
+                                "isRequest": false,
+                                "type": data.type,
+                                "content": {
+                                    "data": isError ? null : reply,
+                                    "error": isError ? reply.payload() : null
+                                }
+                            };
+                            const message = JSON.stringify(payload);
+                            ws.send(message);
+                        };
+
+                        try {
+                            await this._runtime._evaluator.evaluate(data.content.expression, data.content.context, data.content.frameId, sendReply, data.content.mutate === true);
+                        }
+                        catch (e) {
+                            if (!replied) {
+                                sendReply(new LibSdbTypes.EvaluationError(LibSdbTypes.EvaluationErrorKind.Other, e.message));
+                            }
+                        }
+                    }
                     break;
                 default:
                     // respond unsupported call?
@@ -378,7 +656,10 @@ export class LibSdbInterface {
                 const contract = compilationProcessor.linkContractAddress(data.content.contractName, data.content.address);
                 if (contract !== null) {
                     await this._runtime._breakpoints.verifyBreakpoints(contract.sourcePath);
+                    await this._runtime._breakpoints.verifyFunctionBreakpoints();
+                    await this._runtime._breakpoints.verifyWatchpoints();
                     await this._runtime.sendVariableDeclarations(data.content.address.toLowerCase());
+                    await this._runtime.sendHashLocations(data.content.address.toLowerCase());
                     await this._runtime.sendFunctionJumpDestinations(data.content.address.toLowerCase());
                 }
                 this.respondToDebugHook("stopOnBreakpoint", data.id);
@@ -386,12 +667,19 @@ export class LibSdbInterface {
             else if (triggerType === "step" || triggerType === "exception") {
                 await this._runtime.vmStepped(data);
             }
+            else if (triggerType === "transactionEnd") {
+                this._runtime.endTransaction();
+                this.respondToDebugHook("stopOnBreakpoint", data.id);
+            }
             else if (triggerType === "newContract") {
                 const compilationProcessor = new LibSdbCompilationProcessor();
                 const contract = compilationProcessor.linkContractAddressFromBytecode(data.content.code, data.content.address);
                 if (contract !== null) {
                     await this._runtime._breakpoints.verifyBreakpoints(contract.sourcePath);
+                    await this._runtime._breakpoints.verifyFunctionBreakpoints();
+                    await this._runtime._breakpoints.verifyWatchpoints();
                     await this._runtime.sendVariableDeclarations(data.content.address.toLowerCase());
+                    await this._runtime.sendHashLocations(data.content.address.toLowerCase());
                     await this._runtime.sendFunctionJumpDestinations(data.content.address.toLowerCase());
                 }
                 this.respondToDebugHook("stopOnBreakpoint", data.id);
@@ -400,7 +688,8 @@ export class LibSdbInterface {
         else if (messageType === "response") {
             const debuggerMessage = this._debuggerMessages.get(data.id)!;
             if (debuggerMessage instanceof Function) {
-                debuggerMessage(data.content);
+                // exceptions come next to the content, i.e. when an evaluation doesn't make it to its end
+                debuggerMessage(data.exceptionError !== undefined ? Object.assign({ exceptionError: data.exceptionError }, data.content) : data.content);
             }
             this._debuggerMessages.delete(data.id);
 
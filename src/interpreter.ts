@@ -0,0 +1,456 @@
+const parseExpression = require("@velma/solidity-parser").parse;
+
+import { BN } from "bn.js";
+import { LibSdbTypes } from "./types/types";
+import { LibSdbRuntime } from "./runtime";
+import { LibSdbConstants } from "./utils/constants";
+
+// thrown for expressions the interpreter doesn't handle, those are compiled and ran in the vm instead
+export class UnsupportedExpressionError extends Error {
+}
+
+interface InterpretedValue {
+    type: "number" | "bool" | "text" | "variable";
+    number?: BN;
+    signed?: boolean; // numbers from int variables and negated literals
+    bits?: number; // width of the variable's type, literals have none and take on the width of the other operand
+    bool?: boolean;
+    text?: string; // addresses, bytes, strings and enum values, which can only be compared
+    textType?: string;
+    variable?: LibSdbTypes.DecodedVariable; // structs, arrays, mappings, etc. which only have members
+}
+
+const ten = new BN(10);
+
+const denominations: { [denomination: string]: BN } = {
+    "wei": new BN(1),
+    "szabo": ten.pow(new BN(12)),
+    "finney": ten.pow(new BN(15)),
+    "ether": ten.pow(new BN(18)),
+    "seconds": new BN(1),
+    "minutes": new BN(60),
+    "hours": new BN(3600),
+    "days": new BN(86400),
+    "weeks": new BN(604800),
+    "years": new BN(31536000)
+};
+
+// evaluates expressions over identifiers, member access, indexing, arithmetic, comparisons and boolean logic
+//   using the same decoded variables the variables request shows, without compiling anything
+export class LibSdbInterpreter {
+    private _runtime: LibSdbRuntime;
+
+    constructor() {
+        this._runtime = LibSdbRuntime.instance();
+    }
+
+    // the expression node of a single expression statement, null if it isn't one
+    public static parse(expression: string): any | null {
+        const result = parseExpression(expression + (expression.endsWith(';') ? '' : ';'), "solidity-expression");
+
+        return result.body.length === 1 && result.body[0].type === "ExpressionStatement" ? result.body[0].expression : null;
+    }
+
+    public async evaluate(expression: string, frameId: number): Promise<LibSdbTypes.DecodedVariable> {
+        // syntax errors are thrown as they are, compiling the expression wouldn't get any further
+        const node = LibSdbInterpreter.parse(expression);
+        if (node === null) {
+            throw new UnsupportedExpressionError("Not a single expression");
+        }
+
+        const value = await this.evaluateNode(node, expression, frameId);
+
+        return this.toDecodedVariable(expression, value);
+    }
+
+    // identifiers and member/index accesses of them, i.e. `order.items[i].price` or `balances[msg.sender]`
+    public isVariableChain(node: any): boolean {
+        switch (node.type) {
+            case "Identifier":
+            case "ThisExpression":
+                return true;
+            case "MemberExpression":
+                if (!this.isVariableChain(node.object)) {
+                    return false;
+                }
+                return !node.computed || node.property.type === "Literal" || this.isVariableChain(node.property);
+            default:
+                return false;
+        }
+    }
+
+    // resolves a variable chain against the same variable tree the variables request shows
+    public async resolveVariable(node: any, frameId: number): Promise<LibSdbTypes.DecodedVariable | null> {
+        const name = this.chainName(node);
+        if (name !== null && name.indexOf(".") !== -1) {
+            const globalVariable = await this.findNamedVariable(LibSdbConstants.ScopeTypes.global.frame, name, frameId);
+            if (globalVariable !== null) {
+                return globalVariable;
+            }
+        }
+
+        if (node.type === "Identifier") {
+            return await this.findNamedVariable(LibSdbConstants.ScopeTypes.local.frame, node.name, frameId) ||
+                await this.findNamedVariable(LibSdbConstants.ScopeTypes.state.frame, node.name, frameId);
+        }
+        else if (node.type !== "MemberExpression") {
+            return null;
+        }
+
+        const parent = await this.resolveVariable(node.object, frameId);
+        if (parent === null || parent.variablesReference === 0) {
+            return null;
+        }
+
+        if (!node.computed) {
+            const lengthMatch = /^Array\(([0-9]+)\)$/.exec(parent.value);
+            if (node.property.name === "length" && lengthMatch !== null) {
+                return <LibSdbTypes.DecodedVariable> {
+                    name: "length",
+                    type: "uint",
+                    variablesReference: 0,
+                    value: lengthMatch[1],
+                    result: lengthMatch[1]
+                };
+            }
+
+            return await this.findNamedVariable(parent.variablesReference, node.property.name, frameId);
+        }
+
+        let key: string;
+        if (node.property.type === "Literal") {
+            key = node.property.value.toString();
+        }
+        else {
+            const keyVariable = await this.resolveVariable(node.property, frameId);
+            if (keyVariable === null || keyVariable.variablesReference !== 0) {
+                return null;
+            }
+            key = keyVariable.value;
+        }
+
+        if (this._runtime._variableReferenceIds.get(parent.variablesReference) instanceof LibSdbTypes.MappingDetail) {
+            return await this._runtime.mappingEntry(parent.variablesReference, key, frameId);
+        }
+
+        // array elements are only decoded a page at a time, ask for just the one
+        if (!/^(0x[0-9a-fA-F]+|[0-9]+)$/.test(key)) {
+            return null;
+        }
+        const index = parseInt(key);
+        const elements = await this._runtime.variables({ variablesReference: parent.variablesReference, start: index, count: 1 }, frameId, false);
+        for (let i = 0; i < elements.length; i++) {
+            if (elements[i].name === index.toString()) {
+                return elements[i];
+            }
+        }
+
+        return null;
+    }
+
+    // `msg.sender`, `this.balance` etc. are found by name in the global scope
+    private chainName(node: any): string | null {
+        if (node.type === "Identifier") {
+            return node.name;
+        }
+        else if (node.type === "ThisExpression") {
+            return "this";
+        }
+        else if (node.type === "MemberExpression" && !node.computed) {
+            const objectName = this.chainName(node.object);
+            return objectName === null ? null : objectName + "." + node.property.name;
+        }
+
+        return null;
+    }
+
+    private async findNamedVariable(variablesReference: number, name: string, frameId: number): Promise<LibSdbTypes.DecodedVariable | null> {
+        const variables = await this._runtime.variables({ variablesReference: variablesReference }, frameId, false);
+        for (let i = 0; i < variables.length; i++) {
+            if (variables[i].name === name) {
+                return variables[i];
+            }
+        }
+
+        return null;
+    }
+
+    private async evaluateNode(node: any, source: string, frameId: number): Promise<InterpretedValue> {
+        switch (node.type) {
+            case "Identifier":
+            case "ThisExpression":
+            case "MemberExpression":
+                if (!this.isVariableChain(node)) {
+                    throw new UnsupportedExpressionError("Member access of an expression");
+                }
+                const variable = await this.resolveVariable(node, frameId);
+                if (variable === null) {
+                    // could be a constant, an enum value, a function, etc.
+                    throw new UnsupportedExpressionError("Unknown variable " + source.substring(node.start, node.end));
+                }
+                return this.fromVariable(variable);
+            case "Literal":
+                return this.fromLiteral(node, source);
+            case "DenominationLiteral":
+                if (!(node.denomination in denominations)) {
+                    throw new UnsupportedExpressionError("Unknown denomination " + node.denomination);
+                }
+                const literal = source.substring(node.start, node.end).replace(new RegExp(node.denomination + "$"), "").trim();
+                return { type: "number", number: this.parseNumber(literal, denominations[node.denomination]) };
+            case "UnaryExpression":
+                return this.evaluateUnary(node, await this.evaluateNode(node.argument, source, frameId));
+            case "BinaryExpression":
+                return this.evaluateBinary(node, source, frameId);
+            case "ConditionalExpression":
+                const test = await this.evaluateNode(node.test, source, frameId);
+                return this.evaluateNode(this.toBool(test) ? node.consequent : node.alternate, source, frameId);
+            default:
+                // function calls, assignments, etc.
+                throw new UnsupportedExpressionError("Unsupported expression " + node.type);
+        }
+    }
+
+    private evaluateUnary(node: any, argument: InterpretedValue): InterpretedValue {
+        if (!node.prefix) {
+            throw new UnsupportedExpressionError("Unsupported operator " + node.operator);
+        }
+
+        switch (node.operator) {
+            case "!":
+                return { type: "bool", bool: !this.toBool(argument) };
+            case "-":
+                if (argument.type === "number" && argument.signed !== false) {
+                    // literals become signed when negated, negating an uint is left to the vm
+                    const negated = argument.number!.neg();
+                    return { type: "number", number: argument.bits === undefined ? negated : this.wrap(negated, argument.bits, true), signed: true, bits: argument.bits };
+                }
+                throw new UnsupportedExpressionError("Negation of an unsigned value");
+            default:
+                // ~ depends on the width of the type
+                throw new UnsupportedExpressionError("Unsupported operator " + node.operator);
+        }
+    }
+
+    private async evaluateBinary(node: any, source: string, frameId: number): Promise<InterpretedValue> {
+        const left = await this.evaluateNode(node.left, source, frameId);
+
+        // short circuit like solidity does
+        if (node.operator === "&&" || node.operator === "||") {
+            const leftBool = this.toBool(left);
+            if ((node.operator === "&&" && !leftBool) || (node.operator === "||" && leftBool)) {
+                return { type: "bool", bool: leftBool };
+            }
+            return { type: "bool", bool: this.toBool(await this.evaluateNode(node.right, source, frameId)) };
+        }
+
+        const right = await this.evaluateNode(node.right, source, frameId);
+
+        if (node.operator === "==" || node.operator === "!=") {
+            const equal = this.equals(left, right);
+            return { type: "bool", bool: node.operator === "==" ? equal : !equal };
+        }
+
+        const a = this.toNumber(left);
+        const b = this.toNumber(right);
+        const signed = left.signed === true || right.signed === true;
+        // the narrower type is converted to the wider one
+        const bits = left.bits === undefined ? right.bits : right.bits === undefined ? left.bits : Math.max(left.bits, right.bits);
+
+        let result: BN;
+        switch (node.operator) {
+            case "<":
+                return { type: "bool", bool: a.lt(b) };
+            case "<=":
+                return { type: "bool", bool: a.lte(b) };
+            case ">":
+                return { type: "bool", bool: a.gt(b) };
+            case ">=":
+                return { type: "bool", bool: a.gte(b) };
+            case "+":
+                result = a.add(b);
+                break;
+            case "-":
+                result = a.sub(b);
+                break;
+            case "*":
+                result = a.mul(b);
+                break;
+            case "/":
+            case "%":
+                if (b.isZero()) {
+                    throw new Error("Division by zero");
+                }
+                // both truncate towards zero, the remainder has the sign of the dividend
+                result = node.operator === "/" ? a.div(b) : a.mod(b);
+                break;
+            case "**":
+                if (b.isNeg()) {
+                    throw new UnsupportedExpressionError("Negative exponent");
+                }
+                if (b.gtn(256) && a.abs().gtn(1)) {
+                    throw new UnsupportedExpressionError("Result doesn't fit in 256 bits");
+                }
+                result = a.pow(b);
+                break;
+            case "&":
+            case "|":
+            case "^":
+            case "<<":
+            case ">>":
+                if (a.isNeg() || b.isNeg() || ((node.operator === "<<" || node.operator === ">>") && b.gtn(256))) {
+                    throw new UnsupportedExpressionError("Bitwise operation on a negative value");
+                }
+                result = node.operator === "&" ? a.and(b) :
+                    node.operator === "|" ? a.or(b) :
+                    node.operator === "^" ? a.xor(b) :
+                    node.operator === "<<" ? a.shln(b.toNumber()) : a.shrn(b.toNumber());
+                break;
+            default:
+                throw new UnsupportedExpressionError("Unsupported operator " + node.operator);
+        }
+
+        if (bits !== undefined) {
+            // overflows wrap around within the width of the type
+            result = this.wrap(result, bits, signed);
+        }
+        else if ((result.isNeg() && !signed) || result.bitLength() > (signed ? 255 : 256)) {
+            // only literals, we don't know the type they'll end up with so the vm has to figure it out
+            throw new UnsupportedExpressionError("Result doesn't fit in the operands' types");
+        }
+
+        return { type: "number", number: result, signed: signed, bits: bits };
+    }
+
+    // truncates to the low `bits` bits, sign extending them for signed types
+    private wrap(value: BN, bits: number, signed: boolean): BN {
+        const modulus = new BN(1).shln(bits);
+        let wrapped = value.umod(modulus);
+        if (signed && wrapped.testn(bits - 1)) {
+            wrapped = wrapped.sub(modulus);
+        }
+
+        return wrapped;
+    }
+
+    private fromVariable(variable: LibSdbTypes.DecodedVariable): InterpretedValue {
+        if (variable.variablesReference !== 0) {
+            return { type: "variable", variable: variable };
+        }
+
+        switch (variable.type) {
+            case "bool":
+                return { type: "bool", bool: variable.value === "true" };
+            case "uint":
+            case "int":
+                if (!/^-?[0-9]+$/.test(variable.value)) {
+                    throw new UnsupportedExpressionError("Unknown value of " + variable.name);
+                }
+                return { type: "number", number: new BN(variable.value, 10), signed: variable.type === "int", bits: variable.bits };
+            case "fixed":
+            case "ufixed":
+                throw new UnsupportedExpressionError("Fixed point arithmetic");
+            default:
+                return { type: "text", text: variable.value, textType: variable.type };
+        }
+    }
+
+    private fromLiteral(node: any, source: string): InterpretedValue {
+        if (typeof node.value === "boolean") {
+            return { type: "bool", bool: node.value };
+        }
+
+        // numbers are read from the source, the parser gives them as (imprecise) javascript numbers
+        const text = source.substring(node.start, node.end);
+        if (/^0x[0-9a-fA-F]*$/.test(text)) {
+            return { type: "number", number: new BN(text.substr(2) || "0", 16) };
+        }
+        else if (/^[0-9.]/.test(text)) {
+            return { type: "number", number: this.parseNumber(text, new BN(1)) };
+        }
+
+        return { type: "text", text: node.value.toString(), textType: "string" };
+    }
+
+    // decimal literals like 15, 1.5e18, or the 1.5 of 1.5 ether, the result has to be an integer
+    private parseNumber(text: string, multiplier: BN): BN {
+        const match = /^([0-9]+)(?:\.([0-9]+))?(?:e([0-9]+))?$/.exec(text);
+        if (match === null) {
+            throw new UnsupportedExpressionError("Unsupported number " + text);
+        }
+
+        const fraction = match[2] || "";
+        const exponent = parseInt(match[3] || "0");
+        if (exponent > 256) {
+            throw new UnsupportedExpressionError("Unsupported number " + text);
+        }
+
+        const value = new BN(match[1] + fraction, 10).mul(ten.pow(new BN(exponent))).mul(multiplier);
+        const divisor = ten.pow(new BN(fraction.length));
+        if (!value.mod(divisor).isZero()) {
+            throw new UnsupportedExpressionError("Fractional number " + text);
+        }
+
+        return value.div(divisor);
+    }
+
+    private toBool(value: InterpretedValue): boolean {
+        if (value.type !== "bool") {
+            throw new Error("Expected a bool");
+        }
+
+        return value.bool!;
+    }
+
+    private toNumber(value: InterpretedValue): BN {
+        if (value.type === "number") {
+            return value.number!;
+        }
+        else if (value.type === "text" && /^0x[0-9a-fA-F]+$/.test(value.text!)) {
+            // addresses and bytes compare as numbers
+            return new BN(value.text!.substr(2), 16);
+        }
+
+        throw new UnsupportedExpressionError("Expected a number");
+    }
+
+    private equals(left: InterpretedValue, right: InterpretedValue): boolean {
+        if (left.type === "bool" || right.type === "bool") {
+            return this.toBool(left) === this.toBool(right);
+        }
+        else if (left.type === "text" && right.type === "text") {
+            return left.text!.toLowerCase() === right.text!.toLowerCase();
+        }
+
+        return this.toNumber(left).eq(this.toNumber(right));
+    }
+
+    private toDecodedVariable(expression: string, value: InterpretedValue): LibSdbTypes.DecodedVariable {
+        if (value.type === "variable") {
+            return Object.assign({}, value.variable!, { name: expression });
+        }
+
+        let type: string;
+        let result: string;
+        if (value.type === "number") {
+            type = value.signed ? "int" : "uint";
+            result = value.number!.toString(10);
+        }
+        else if (value.type === "bool") {
+            type = "bool";
+            result = value.bool ? "true" : "false";
+        }
+        else {
+            type = value.textType || "string";
+            result = value.text!;
+        }
+
+        return <LibSdbTypes.DecodedVariable> {
+            name: expression,
+            type: type,
+            variablesReference: 0,
+            value: result,
+            result: result,
+            bits: value.type === "number" ? value.bits : undefined
+        };
+    }
+}
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { LibSdbUtils } from "./utils/utils";
+import { LibSdbConstants } from "./utils/constants";
+import { BN } from "bn.js";
+
+export class LibSdbPreimageRecorder {
+    // address -> mapping slot (hex) -> encoded keys (hex) hashed with that slot
+    private _preimages: Map<string, Map<string, string[]>>;
+
+    constructor() {
+        this._preimages = new Map<string, Map<string, string[]>>();
+    }
+
+    public static isHashStep(vmData: any): boolean {
+        return vmData.opcode !== undefined && (vmData.opcode.name === "SHA3" || vmData.opcode.name === "KECCAK256");
+    }
+
+    // mapping lookups hash the key followed by the 32 byte slot of the mapping, so the input of every
+    //   SHA3 a word longer than a plausible key is a candidate key/slot pair
+    public recordStep(address: string, vmData: any): void {
+        if (!LibSdbPreimageRecorder.isHashStep(vmData) || vmData.stack.length < 2) {
+            return;
+        }
+
+        const range = LibSdbUtils.dataRange(new BN(vmData.stack[vmData.stack.length - 1]), new BN(vmData.stack[vmData.stack.length - 2]), vmData.memory.length);
+        if (range === null || range.length <= 32 || range.length > 32 + LibSdbConstants.MaxPreimageKeyLength) {
+            return;
+        }
+
+        const length = range.length;
+        const input = LibSdbUtils.readMemory(vmData.memory, range.offset, length);
+        const key = input.slice(0, length - 32).toString("hex");
+        const slot = new BN(input.slice(length - 32)).toString(16);
+
+        if (!this._preimages.has(address)) {
+            this._preimages.set(address, new Map<string, string[]>());
+        }
+        const slots = this._preimages.get(address)!;
+
+        if (!slots.has(slot)) {
+            slots.set(slot, []);
+        }
+        const keys = slots.get(slot)!;
+
+        if (keys.indexOf(key) === -1) {
+            keys.push(key);
+        }
+    }
+
+    public keys(address: string, slot: BN): Buffer[] {
+        const slots = this._preimages.get(address);
+        if (slots === undefined) {
+            return [];
+        }
+
+        const keys = slots.get(slot.toString(16));
+        if (keys === undefined) {
+            return [];
+        }
+
+        return keys.map((key) => Buffer.from(key, "hex"));
+    }
+
+    public clear(): void {
+        this._preimages.clear();
+    }
+}
\ No newline at end of file
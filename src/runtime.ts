@@ -6,6 +6,7 @@ import { LibSdbUtils } from "./utils/utils";
 import { LibSdbInterface } from "./interface";
 import { LibSdbBreakpoints } from "./breakpoints";
 import { LibSdbEvaluator } from "./evaluator";
+import { LibSdbPreimageRecorder } from "./preimages";
 import { ValueDetail } from "./types/barrel";
 import { LibSdbConstants } from "./utils/constants";
 import { BN } from "bn.js";
@@ -20,9 +21,23 @@ export class LibSdbRuntime extends EventEmitter {
 
     public _priorStepData: LibSdbTypes.StepData | null;
     public _priorUiStepData: LibSdbTypes.StepData | null;
+    private _fastStepping: boolean; // the hook only reports breakpoints and special events since our last response
 
     public _callStack: LibSdbTypes.StackFrame[];
     public _priorUiCallStack: LibSdbTypes.StackFrame[] | null;
+    public _callDepth: number;
+    public _callDepthKnown: boolean; // whether the hook reported the call depth of any step this transaction
+    public _currentFrame: LibSdbTypes.StackFrame; // how the currently executing frame was entered
+    private _pendingCall: LibSdbTypes.StackFrame | null;
+
+    public _recordHistory: boolean; // steps are only recorded, and the hook can't fast step, while the client wants to step back
+    public _history: LibSdbTypes.HistoryEntry[];
+    public _historyIndex: number | null;
+    private _historySize: number; // see `HistoryEntry.size`
+    private _historyStorageIndex: number | null; // the entry whose storage the vm currently has, null for the live step
+    private _liveStepData: LibSdbTypes.StepData | null;
+    private _liveCallStack: LibSdbTypes.StackFrame[];
+    private _liveCurrentFrame: LibSdbTypes.StackFrame;
 
     public _files: LibSdbTypes.FileMap;
     public _filesById: LibSdbTypes.FileByIdMap;
@@ -30,10 +45,17 @@ export class LibSdbRuntime extends EventEmitter {
     public _contractsByAddress: LibSdbTypes.ContractMap;
 
     public _variableReferenceIds: LibSdbTypes.VariableReferenceMap;
+    public _variableReferenceAddresses: Map<number, string>; // variables that live in another contract's storage
+    public _variableReferenceFrames: Map<number, number>; // the frame (as numbered by `stack`) a variable was handed out for
+    public _variableFormats: Map<string, LibSdbTypes.ValueFormat>; // key: `${id}:${name}` with the value's id, or `${containerReference}:${name}` for values without one
+    public _evaluationResults: Map<number, LibSdbTypes.DecodedVariable[]>; // values of evaluated tuples, decoded when they were evaluated
+    public _pendingStorageChanges: LibSdbTypes.StorageChange[] | null; // of a mutating evaluation, until they're committed or reverted
 
     public _interface: LibSdbInterface;
     public _breakpoints: LibSdbBreakpoints;
     public _evaluator: LibSdbEvaluator;
+    public _preimages: LibSdbPreimageRecorder;
+    public _touchedSlots: Map<string, string[]>; // key: address, value: hex storage slots read or written this transaction
 
     constructor() {
         super();
@@ -43,6 +65,8 @@ export class LibSdbRuntime extends EventEmitter {
         this._interface = new LibSdbInterface();
         this._breakpoints = new LibSdbBreakpoints();
         this._evaluator = new LibSdbEvaluator();
+        this._preimages = new LibSdbPreimageRecorder();
+        this._touchedSlots = new Map<string, string[]>();
 
         this._files = new Map<string, LibSdbTypes.File>();
         this._filesById = new Map<number, LibSdbTypes.File>();
@@ -50,13 +74,32 @@ export class LibSdbRuntime extends EventEmitter {
         this._contractsByAddress = new Map<string, LibSdbTypes.Contract>();
 
         this._variableReferenceIds = new Map<number, LibSdbTypes.VariableDetailType>();
+        this._variableReferenceAddresses = new Map<number, string>();
+        this._variableReferenceFrames = new Map<number, number>();
+        this._variableFormats = new Map<string, LibSdbTypes.ValueFormat>();
+        this._evaluationResults = new Map<number, LibSdbTypes.DecodedVariable[]>();
+        this._pendingStorageChanges = null;
 
         this._stepData = null;
         this._priorStepData = null;
         this._priorUiStepData = null;
+        this._fastStepping = false;
 
         this._callStack = [];
         this._priorUiCallStack = [];
+        this._callDepth = 0;
+        this._callDepthKnown = false;
+        this._currentFrame = new LibSdbTypes.StackFrame();
+        this._pendingCall = null;
+
+        this._recordHistory = false;
+        this._history = [];
+        this._historyIndex = null;
+        this._historySize = 0;
+        this._historyStorageIndex = null;
+        this._liveStepData = null;
+        this._liveCallStack = [];
+        this._liveCurrentFrame = new LibSdbTypes.StackFrame();
     }
 
     public static instance(): LibSdbRuntime {
@@ -70,6 +113,9 @@ export class LibSdbRuntime extends EventEmitter {
         }
 
         this._priorStepData = this._stepData.clone();
+        if (stepEvent !== "skipEvent") {
+            this._fastStepping = this._interface.fastStep(stepEvent);
+        }
 
         this._interface.respondToDebugHook(stepEvent, this._stepData.debuggerMessageId, content);
     }
@@ -85,7 +131,10 @@ export class LibSdbRuntime extends EventEmitter {
             frame.name = functionNamePrior;
             frame.file = contract.sourcePath;
             frame.line = this._priorStepData.location.start === null ? null : this._priorStepData.location.start.line;
-            this._callStack.unshift(frame);
+            frame.depth = this._callDepth;
+            frame.scope = this._priorStepData.scope;
+            frame.stackLength = this._priorStepData.vmData.stack.length;
+            this.pushFrame(frame, LibSdbTypes.CallType.Internal);
         }
 
         const node = LibSdbUtils.SourceMappingDecoder.findNodeAtSourceLocation("FunctionDefinition", sourceLocation, { AST: contract.ast });
@@ -111,7 +160,144 @@ export class LibSdbRuntime extends EventEmitter {
     private async processJumpOut(contract: LibSdbTypes.Contract, stack: any, memory: any): Promise<void> {
         // jump out, we should be at a JUMPDEST currently
 
-        this._callStack.shift();
+        this.popFrame();
+    }
+
+    // the pushed frame takes over how the current frame was entered, and the current frame is now entered through `callType`
+    private pushFrame(frame: LibSdbTypes.StackFrame, callType: LibSdbTypes.CallType, call: LibSdbTypes.StackFrame | null = null) {
+        frame.address = this._currentFrame.address;
+        frame.callType = this._currentFrame.callType;
+        frame.value = this._currentFrame.value;
+        frame.gas = this._currentFrame.gas;
+        frame.calldata = this._currentFrame.calldata;
+        if (this._priorStepData !== null) {
+            frame.pc = this._priorStepData.vmData.pc;
+            frame.opcode = this._priorStepData.vmData.opcode ? this._priorStepData.vmData.opcode.name : null;
+        }
+        this._callStack.unshift(frame);
+
+        let currentFrame = new LibSdbTypes.StackFrame();
+        currentFrame.address = call === null ? frame.address : call.address;
+        currentFrame.callType = callType;
+        if (call !== null) {
+            currentFrame.value = call.value;
+            currentFrame.gas = call.gas;
+            currentFrame.calldata = call.calldata;
+        }
+        this._currentFrame = currentFrame;
+    }
+
+    private popFrame() {
+        const frame = this._callStack.shift();
+        if (frame !== undefined) {
+            this._currentFrame = frame.clone();
+        }
+    }
+
+    // remember the arguments of a message call, we'll need them once the callee starts executing
+    private processCallOpcode(vmData: any) {
+        if (!vmData.opcode) {
+            return;
+        }
+
+        let stack: BN[] = [];
+        for (let i = vmData.stack.length - 1; i >= 0; i--) {
+            stack.push(new BN(vmData.stack[i]));
+        }
+
+        const argument = (index: number): BN => index < stack.length ? stack[index] : new BN(0);
+        const calldata = (offsetIndex: number): string | null => {
+            if (argument(offsetIndex + 1).isZero()) {
+                return "0x";
+            }
+
+            // arguments outside of memory are garbage, or the call is about to run out of gas expanding it
+            const range = LibSdbUtils.dataRange(argument(offsetIndex), argument(offsetIndex + 1), vmData.memory.length);
+            return range === null ? null : "0x" + LibSdbUtils.readMemory(vmData.memory, range.offset, range.length).toString("hex");
+        };
+
+        let call = new LibSdbTypes.StackFrame();
+        switch (vmData.opcode.name) {
+            case "CALL":
+            case "CALLCODE":
+                // gas, address, value, argsOffset, argsLength, retOffset, retLength
+                call.callType = vmData.opcode.name === "CALL" ? LibSdbTypes.CallType.Call : LibSdbTypes.CallType.CallCode;
+                call.gas = argument(0);
+                call.address = argument(1).toString(16, 40);
+                call.value = argument(2);
+                call.calldata = calldata(3);
+                break;
+            case "DELEGATECALL":
+            case "STATICCALL":
+                // gas, address, argsOffset, argsLength, retOffset, retLength
+                call.callType = vmData.opcode.name === "DELEGATECALL" ? LibSdbTypes.CallType.DelegateCall : LibSdbTypes.CallType.StaticCall;
+                call.gas = argument(0);
+                call.address = argument(1).toString(16, 40);
+                call.value = new BN(0);
+                call.calldata = calldata(2);
+                break;
+            case "CREATE":
+            case "CREATE2":
+                // value, offset, length[, salt]; the new address isn't known until the callee runs
+                call.callType = LibSdbTypes.CallType.Create;
+                call.value = argument(0);
+                call.calldata = calldata(1);
+                break;
+            default:
+                return;
+        }
+
+        this._pendingCall = call;
+    }
+
+    private processCallDepth(depth: number | undefined, address: string) {
+        if (depth === undefined) {
+            return;
+        }
+
+        this._callDepthKnown = true;
+        if (depth === this._callDepth) {
+            return;
+        }
+
+        if (depth > this._callDepth) {
+            // the hook may have skipped the step with the call opcode, in which case all we know is where we ended up
+            let call = this._pendingCall;
+            if (call === null) {
+                call = new LibSdbTypes.StackFrame();
+                call.callType = LibSdbTypes.CallType.Call;
+            }
+            if (call.callType === LibSdbTypes.CallType.Create || call.address === undefined) {
+                call.address = address;
+            }
+
+            // we're in a new contract call (CALL, DELEGATECALL, STATICCALL, CALLCODE, CREATE), the caller's frame is
+            //   where we made the call from
+            if (this._priorStepData && this._priorStepData.source && this._priorStepData.location && this._priorStepData.location.start) {
+                const contractPrior = this._contractsByAddress.get(this._priorStepData.contractAddress);
+                if (contractPrior) {
+                    const nodePrior = LibSdbUtils.SourceMappingDecoder.findNodeAtSourceLocation("FunctionDefinition", this._priorStepData.source, { AST: contractPrior.ast });
+                    let frame = new LibSdbTypes.StackFrame();
+                    frame.name = nodePrior === null ? "(anonymous function)" : nodePrior.attributes.name;
+                    frame.file = contractPrior.sourcePath;
+                    frame.line = this._priorStepData.location.start.line;
+                    frame.depth = depth;
+                    frame.scope = this._priorStepData.scope;
+                    frame.stackLength = this._priorStepData.vmData.stack.length;
+                    frame.stack = this._priorStepData.vmData.stack;
+                    frame.memory = this._priorStepData.vmData.memory;
+                    this.pushFrame(frame, call.callType, call);
+                }
+            }
+        }
+        else {
+            // we returned from a contract call, drop everything the callee pushed, including the frame of the call site
+            while (this._callStack.length > 0 && this._callStack[0].depth > depth) {
+                this.popFrame();
+            }
+        }
+
+        this._callDepth = depth;
     }
 
     private processDeclaration(sourceLocation: any, contract: LibSdbTypes.Contract, stack: any) {
@@ -153,6 +339,24 @@ export class LibSdbRuntime extends EventEmitter {
         const pc = data.content.pc;
         const address = data.content.address.toString("hex").toLowerCase();
 
+        if (this._currentFrame.address === undefined) {
+            // first step of the transaction
+            this._currentFrame.address = address;
+            this._currentFrame.callType = data.content.runtime ? LibSdbTypes.CallType.Call : LibSdbTypes.CallType.Create;
+        }
+        this.processCallDepth(data.content.depth, address);
+        this._pendingCall = null;
+        try {
+            this.processCallOpcode(data.content);
+        }
+        catch (e) {
+            // the hook still needs its answer, the call just won't have its arguments
+            this._pendingCall = null;
+        }
+        this._preimages.recordStep(address, data.content);
+        this.recordStorageAccess(address, data.content);
+        const storageWrites = this._recordHistory ? await this.stepStorageWrites(address, data) : [];
+
         if (this._contractsByAddress.get(address) === undefined) {
             this._stepData = new LibSdbTypes.StepData();
             this._stepData.debuggerMessageId = data.id;
@@ -200,7 +404,9 @@ export class LibSdbRuntime extends EventEmitter {
                             frame.name = contract.functionNames[pc];
                             frame.file = contract.sourcePath;
                             frame.line = 0 //currentLocation.start === null ? null : currentLocation.start.line;
-                            this._callStack.unshift(frame);
+                            frame.depth = this._callDepth;
+                            frame.stackLength = data.content.stack.length;
+                            this.pushFrame(frame, this._currentFrame.callType, this._currentFrame);
                         }
                     }
                     else if (data.content.specialEvents.indexOf("declaration") >= 0) {
@@ -249,6 +455,7 @@ export class LibSdbRuntime extends EventEmitter {
                         this.respondToDebugHook("skipEvent");
                     }
                     else {
+                        this.recordHistory();
                         this.sendEvent("step");
                     }
                 }
@@ -260,6 +467,88 @@ export class LibSdbRuntime extends EventEmitter {
                 this.respondToDebugHook("skipEvent");
             }
         }
+
+        if (storageWrites.length > 0 && this._history.length > 0) {
+            // a step that isn't recorded writes on behalf of the entry before it
+            const entry = this._history[this._history.length - 1];
+            entry.storageWrites = entry.storageWrites.concat(storageWrites);
+        }
+    }
+
+    // what the vm is about to write to storage when it executes the step: the word of an SSTORE, or the rollback of
+    //   the writes of a call that failed
+    private async stepStorageWrites(address: string, data: any): Promise<LibSdbTypes.StorageChange[]> {
+        let writes: LibSdbTypes.StorageChange[] = [];
+        const vmData = data.content;
+
+        if (data.exceptionError === undefined) {
+            if (vmData.opcode && vmData.opcode.name === "SSTORE" && vmData.stack.length >= 2) {
+                const slot = new BN(vmData.stack[vmData.stack.length - 1]);
+                const content = await this._interface.requestStorage(address, slot.toArrayLike(Buffer, "be", 32));
+                writes.push(new LibSdbTypes.StorageChange(address, slot.toString(16, 64), new BN(content.value).toString(16, 64), new BN(vmData.stack[vmData.stack.length - 2]).toString(16, 64)));
+            }
+
+            return writes;
+        }
+
+        // every slot the failed call wrote to goes back to what it was before the call's first write to it
+        let reverted: LibSdbTypes.StorageChange[] = [];
+        for (let i = this._history.length - 1; i >= 0; i--) {
+            const depth = this._history[i].stepData.vmData.depth;
+            if (vmData.depth !== undefined && depth !== undefined && depth < vmData.depth) {
+                break;
+            }
+            reverted = this._history[i].storageWrites.concat(reverted);
+        }
+
+        let slots: string[] = [];
+        for (let i = 0; i < reverted.length; i++) {
+            const key = reverted[i].address + ":" + reverted[i].slot;
+            if (slots.indexOf(key) === -1) {
+                slots.push(key);
+                const content = await this._interface.requestStorage(reverted[i].address, Buffer.from(reverted[i].slot, "hex"));
+                writes.push(new LibSdbTypes.StorageChange(reverted[i].address, reverted[i].slot, new BN(content.value).toString(16, 64), reverted[i].before));
+            }
+        }
+
+        return writes;
+    }
+
+    public setRecordHistory(enabled: boolean): boolean {
+        if (this._historyIndex !== null) {
+            // we're stopped in the history, it can't go away from under us
+            return false;
+        }
+
+        this._recordHistory = enabled;
+        if (!enabled) {
+            this._history = [];
+            this._historySize = 0;
+        }
+
+        return true;
+    }
+
+    public endTransaction(): void {
+        this._breakpoints.resetHitCounts();
+        this._preimages.clear();
+        this._touchedSlots.clear();
+        this._evaluationResults.clear();
+        this._pendingStorageChanges = null;
+
+        // steps from a finished transaction can't be replayed against the next one
+        this._history = [];
+        this._historyIndex = null;
+        this._historySize = 0;
+        this._historyStorageIndex = null;
+
+        this._callStack = [];
+        this._callDepth = 0;
+        this._callDepthKnown = false;
+        this._currentFrame = new LibSdbTypes.StackFrame();
+        this._pendingCall = null;
+        this._priorStepData = null;
+        this._fastStepping = false;
     }
 
     public stack(startFrame: number, endFrame: number): any {
@@ -282,7 +571,8 @@ export class LibSdbRuntime extends EventEmitter {
                         "index": startFrame,
                         "name": node === null ? "(anonymous function)" : node.attributes.name,
                         "file": file.fullPath(),
-                        "line": LibSdbUtils.getOriginalLine(this._stepData.location.start.line, file.lineOffsets)
+                        "line": LibSdbUtils.getOriginalLine(this._stepData.location.start.line, file.lineOffsets),
+                        ...this.frameCallInfo(this._currentFrame)
                     });
                 }
             }
@@ -292,7 +582,8 @@ export class LibSdbRuntime extends EventEmitter {
                     "index": i + 1, // offset by one due to the current line "at the top of the stack", but not in the callstack variable
                     "name": this._callStack[i].name,
                     "file": this._callStack[i].file,
-                    "line": LibSdbUtils.getOriginalLine(this._callStack[i].line, this._files.get(this._callStack[i].file)!.lineOffsets)
+                    "line": LibSdbUtils.getOriginalLine(this._callStack[i].line, this._files.get(this._callStack[i].file)!.lineOffsets),
+                    ...this.frameCallInfo(this._callStack[i])
                 });
             }
         }
@@ -306,33 +597,107 @@ export class LibSdbRuntime extends EventEmitter {
         };
     }
 
-    public async variables(args: DebugProtocol.VariablesArguments | null): Promise<any[]> {
+    private frameCallInfo(frame: LibSdbTypes.StackFrame): any {
+        return {
+            "address": frame.address === undefined ? null : "0x" + frame.address,
+            "callType": LibSdbTypes.CallTypeToString(frame.callType),
+            "value": frame.value === null ? null : frame.value.toString(),
+            "gas": frame.gas === null ? null : frame.gas.toString(),
+            "calldata": frame.calldata
+        };
+    }
+
+    // finds the stack, memory, and scope the given frame (as numbered by `stack`) was executing with
+    private frameContext(frameId: number): { address: string, scope: LibSdbTypes.AstScope[], stack: BN[], memory: any, stackLength: number, pc: number | null, opcode: string | null } {
+        const stepData = this._stepData!;
+        let context = {
+            address: stepData.contractAddress,
+            scope: stepData.scope,
+            stack: stepData.vmData.stack,
+            memory: stepData.vmData.memory,
+            stackLength: stepData.vmData.stack.length,
+            pc: <number | null> stepData.vmData.pc,
+            opcode: <string | null> (stepData.vmData.opcode ? stepData.vmData.opcode.name : null)
+        };
+
+        if (frameId <= 0 || frameId > this._callStack.length) {
+            return context;
+        }
+
+        const frame = this._callStack[frameId - 1];
+        context.address = frame.address;
+        context.scope = frame.scope;
+        context.stackLength = frame.stackLength;
+        context.pc = frame.pc;
+        context.opcode = frame.opcode;
+
+        if (frame.stack !== null) {
+            context.stack = frame.stack;
+            context.memory = frame.memory;
+        }
+        else if (frame.depth !== this._callDepth) {
+            // an internal frame of a contract that has since made a message call, the frame of that call has its stack
+            for (let i = frameId - 2; i >= 0; i--) {
+                if (this._callStack[i].depth === frame.depth + 1 && this._callStack[i].stack !== null) {
+                    context.stack = this._callStack[i].stack!;
+                    context.memory = this._callStack[i].memory;
+                    break;
+                }
+            }
+        }
+
+        return context;
+    }
+
+    public async variables(args: DebugProtocol.VariablesArguments | null, frameId: number = 0, formatted: boolean = true): Promise<any[]> {
         let variables: any[] = [];
 
         if (this._stepData !== null && args !== null && "variablesReference" in args) {
-            const stack = this._stepData.vmData.stack;
-            const memory = this._stepData.vmData.memory;
-            const contract = this._contractsByAddress.get(this._stepData.contractAddress)!;
+            frameId = this.referenceFrame(args.variablesReference, frameId);
+            const frame = this.frameContext(frameId);
+            const stack = frame.stack;
+            const memory = frame.memory;
+            const contract = this._contractsByAddress.get(frame.address)!;
 
             if (args.variablesReference >= LibSdbConstants.ScopeTypes.variableStart.frame) {
                 // TODO: get children for a variable
-                if (this._variableReferenceIds.has(args.variablesReference)) {
+                if (this._evaluationResults.has(args.variablesReference)) {
+                    // copies, formatting changes the values
+                    variables = this._evaluationResults.get(args.variablesReference)!.map((value) => Object.assign({}, value));
+                }
+                else if (this._variableReferenceIds.has(args.variablesReference)) {
                     const detail = this._variableReferenceIds.get(args.variablesReference)!;
-                    if (!(detail instanceof ValueDetail)) {
-                        variables = await detail.decodeChildren(stack, memory, this._interface, this._stepData.contractAddress);
+                    const address = this._variableReferenceAddresses.get(args.variablesReference) || frame.address;
+                    if (detail instanceof LibSdbTypes.ArrayDetail) {
+                        variables = await detail.decodeChildren(stack, memory, this._interface, address, args.start, args.count);
+                    }
+                    else if (!(detail instanceof ValueDetail)) {
+                        variables = await detail.decodeChildren(stack, memory, this._interface, address);
+                    }
+
+                    // children are in the same contract as their parent, except for the state of a contract variable
+                    const childAddress = detail instanceof LibSdbTypes.ContractDetail && detail.targetAddress !== null ? detail.targetAddress : address;
+                    if (childAddress !== frame.address) {
+                        for (let i = 0; i < variables.length; i++) {
+                            if (variables[i].variablesReference > 0) {
+                                this._variableReferenceAddresses.set(variables[i].variablesReference, childAddress);
+                            }
+                        }
                     }
                 }
             }
             else if (args.variablesReference === LibSdbConstants.ScopeTypes.local.frame) {
-                for (let i = 0; i < this._stepData.scope.length; i++) {
-                    const scope = this._stepData.scope[i];
+                for (let i = 0; i < frame.scope.length; i++) {
+                    const scope = frame.scope[i];
                     if (contract.scopeVariableMap.has(scope.id)) {
                         const scopeVars = contract.scopeVariableMap.get(scope.id)!;
                         const names = scopeVars.keys();
                         for (const name of names) {
                             const variable = scopeVars.get(name);
-                            if (variable && variable.detail !== null && !variable.isStateVariable) {
-                                const value = await variable.detail.decode(stack, memory, this._interface, this._stepData.contractAddress);
+                            // the positions of an older frame's variables are below where that frame called out of
+                            const inFrame = frameId === 0 || variable === undefined || variable.position === null || variable.location !== LibSdbTypes.VariableLocation.Stack || variable.position < frame.stackLength;
+                            if (variable && variable.detail !== null && !variable.isStateVariable && inFrame) {
+                                const value = await variable.detail.decode(stack, memory, this._interface, frame.address);
 
                                 variables.push(value);
                             }
@@ -344,67 +709,396 @@ export class LibSdbRuntime extends EventEmitter {
                 for (let i = 0; i < contract.stateVariables.length; i++) {
                     const variable = contract.stateVariables[i];
                     if (variable && variable.detail !== null) {
-                        const value = await variable.detail.decode(stack, memory, this._interface, this._stepData.contractAddress);
+                        const value = await variable.detail.decode(stack, memory, this._interface, frame.address);
 
                         variables.push(value);
                     }
                 }
             }
             else if (args.variablesReference === LibSdbConstants.ScopeTypes.global.frame) {
-                //
+                variables = await this.globalVariables(frameId, frame.address);
             }
             else if (args.variablesReference === LibSdbConstants.ScopeTypes.dev.frame) {
                 variables.push({
                     name: "Contract Address",
                     evaluateName: "Contract Address",
                     type: "string",
-                    value: this._stepData.contractAddress,
+                    value: frame.address,
                     variablesReference: 0
                 });
                 variables.push({
                     name: "Contract Name",
                     evaluateName: "Contract Name",
                     type: "string",
-                    value: this._contractsByAddress.get(this._stepData.contractAddress)!.name,
+                    value: contract.name,
                     variablesReference: 0
                 });
                 variables.push({
                     name: "Contract Code",
                     evaluateName: "Contract Code",
                     type: "string",
-                    value: this._contractsByAddress.get(this._stepData.contractAddress)!.runtimeBytecode,
+                    value: contract.runtimeBytecode,
                     variablesReference: 0
                 });
                 variables.push({
                     name: "Program Counter",
                     evaluateName: "Program Counter",
                     type: "number",
-                    value: this._stepData.vmData.pc + "",
+                    value: frame.pc === null ? "(unknown)" : frame.pc + "",
                     variablesReference: 0
                 });
                 variables.push({
                     name: "Next OpCode",
                     evaluateName: "Next OpCode",
                     type: "string",
-                    value: this._stepData.vmData.opcode.name,
+                    value: frame.opcode === null ? "(unknown)" : frame.opcode,
                     variablesReference: 0
                 });
                 variables.push({
                     name: "Stack Length",
                     evaluateName: "Stack Length",
                     type: "number",
-                    value: this._stepData.vmData.stack.length + "",
+                    value: frame.stackLength + "",
                     variablesReference: 0
                 });
+                variables.push({
+                    name: LibSdbConstants.ScopeTypes.devStack.name,
+                    evaluateName: LibSdbConstants.ScopeTypes.devStack.name,
+                    type: "stack",
+                    value: "(" + stack.length + " words)",
+                    variablesReference: LibSdbConstants.ScopeTypes.devStack.frame,
+                    indexedVariables: stack.length
+                });
+                variables.push({
+                    name: LibSdbConstants.ScopeTypes.devMemory.name,
+                    evaluateName: LibSdbConstants.ScopeTypes.devMemory.name,
+                    type: "memory",
+                    value: "(" + memory.length + " bytes)",
+                    variablesReference: LibSdbConstants.ScopeTypes.devMemory.frame,
+                    indexedVariables: Math.ceil(memory.length / 32)
+                });
+                const slots = this._touchedSlots.get(frame.address) || [];
+                variables.push({
+                    name: LibSdbConstants.ScopeTypes.devStorage.name,
+                    evaluateName: LibSdbConstants.ScopeTypes.devStorage.name,
+                    type: "storage",
+                    value: "(" + slots.length + " slots touched)",
+                    variablesReference: LibSdbConstants.ScopeTypes.devStorage.frame,
+                    namedVariables: slots.length
+                });
+            }
+            else if (args.variablesReference === LibSdbConstants.ScopeTypes.devStack.frame) {
+                variables = this.stackWords(stack, args.start, args.count);
+            }
+            else if (args.variablesReference === LibSdbConstants.ScopeTypes.devMemory.frame) {
+                variables = this.memoryRows(memory, args.start, args.count);
+            }
+            else if (args.variablesReference === LibSdbConstants.ScopeTypes.devStorage.frame) {
+                variables = await this.storageSlots(frame.address);
             }
             else {
                 // TODO: shrug, anything?
             }
+
+            this.bindReferences(variables, frameId);
+
+            if (formatted) {
+                this.formatVariables(args.variablesReference, variables, args.format || {});
+            }
         }
 
         return variables;
     }
 
+    // children have to be decoded against the stack and memory of the frame their parent came from, but the client
+    //   doesn't tell us the frame when it expands a variable
+    private referenceFrame(variablesReference: number, frameId: number): number {
+        if (variablesReference >= LibSdbConstants.ScopeTypes.variableStart.frame && this._variableReferenceFrames.has(variablesReference)) {
+            return this._variableReferenceFrames.get(variablesReference)!;
+        }
+
+        return frameId;
+    }
+
+    private bindReferences(variables: any[], frameId: number): void {
+        for (let i = 0; i < variables.length; i++) {
+            if (variables[i].variablesReference >= LibSdbConstants.ScopeTypes.variableStart.frame) {
+                this._variableReferenceFrames.set(variables[i].variablesReference, frameId);
+            }
+        }
+    }
+
+    private recordStorageAccess(address: string, vmData: any): void {
+        if (vmData.opcode === undefined || (vmData.opcode.name !== "SLOAD" && vmData.opcode.name !== "SSTORE") || vmData.stack.length < 1) {
+            return;
+        }
+
+        if (!this._touchedSlots.has(address)) {
+            this._touchedSlots.set(address, []);
+        }
+        const slots = this._touchedSlots.get(address)!;
+
+        const slot = new BN(vmData.stack[vmData.stack.length - 1]).toString(16, 64);
+        if (slots.indexOf(slot) === -1) {
+            slots.push(slot);
+        }
+    }
+
+    // the raw stack, top of the stack first
+    private stackWords(stack: BN[], start: number = 0, count: number = stack.length): any[] {
+        let variables: any[] = [];
+
+        for (let i = start; i < Math.min(start + count, stack.length); i++) {
+            const word = new BN(stack[stack.length - 1 - i]);
+            variables.push({
+                name: "[" + i + "]",
+                evaluateName: "[" + i + "]",
+                type: "uint256",
+                value: "0x" + word.toString(16, 64),
+                variablesReference: 0
+            });
+        }
+
+        return variables;
+    }
+
+    // rows of 32 bytes as hex followed by their printable characters
+    private memoryRows(memory: (number | null)[], start: number = 0, count: number = LibSdbConstants.ArrayPageSize): any[] {
+        let variables: any[] = [];
+        const rows = Math.ceil(memory.length / 32);
+
+        for (let i = start; i < Math.min(start + count, rows); i++) {
+            const bytes = LibSdbUtils.readMemory(memory, i * 32, 32);
+            let ascii = "";
+            for (let j = 0; j < bytes.length; j++) {
+                ascii += bytes[j] >= 0x20 && bytes[j] < 0x7f ? String.fromCharCode(bytes[j]) : ".";
+            }
+
+            const name = "0x" + (i * 32).toString(16);
+            variables.push({
+                name: name,
+                evaluateName: name,
+                type: "bytes32",
+                value: bytes.toString("hex") + "  " + ascii,
+                variablesReference: 0
+            });
+        }
+
+        return variables;
+    }
+
+    // only the slots seen in SLOAD/SSTORE steps, the values are read from the hook
+    private async storageSlots(address: string): Promise<any[]> {
+        let variables: any[] = [];
+        const slots = this._touchedSlots.get(address) || [];
+
+        for (let i = 0; i < slots.length; i++) {
+            const content = await this._interface.requestStorage(address, Buffer.from(slots[i], "hex"));
+            const value = new BN(content.value);
+            const name = "0x" + slots[i];
+            variables.push({
+                name: name,
+                evaluateName: name,
+                type: "bytes32",
+                value: "0x" + value.toString(16, 64),
+                variablesReference: 0
+            });
+        }
+
+        return variables;
+    }
+
+    // msg, tx and block context of a frame; what isn't known from how the frame was entered is asked of the hook,
+    //   which only knows the context of the message currently executing
+    private async globalVariables(frameId: number, address: string): Promise<any[]> {
+        const isCurrentFrame = frameId <= 0 || frameId > this._callStack.length;
+        const entry = isCurrentFrame ? this._currentFrame : this._callStack[frameId - 1];
+        const globals = await this._interface.requestGlobals(address);
+        const msg = (isCurrentFrame ? globals.msg : null) || {};
+        const tx = globals.tx || {};
+        const block = globals.block || {};
+
+        const toUint = (value: any): string => {
+            if (value === undefined || value === null) {
+                return "(unknown)";
+            }
+            else if (BN.isBN(value)) {
+                return value.toString(10);
+            }
+            else if (value instanceof Buffer || (value.type === "Buffer" && value.data)) {
+                return new BN(Buffer.from(value.data || value)).toString(10);
+            }
+            else if (typeof value === "string" && /^0x/.test(value)) {
+                return new BN(value.substr(2), 16).toString(10);
+            }
+            return value.toString();
+        };
+
+        const toHex = (value: any, bytes: number = 0): string => {
+            if (value === undefined || value === null) {
+                return "(unknown)";
+            }
+            else if (BN.isBN(value)) {
+                return "0x" + value.toString(16, bytes * 2);
+            }
+            else if (value instanceof Buffer || (value.type === "Buffer" && value.data)) {
+                return "0x" + Buffer.from(value.data || value).toString("hex");
+            }
+            return "0x" + value.toString().replace(/^0x/, "").toLowerCase();
+        };
+
+        // the calldata of a create is the init code, msg.data is empty in a constructor
+        let msgData = toHex(msg.data);
+        if (entry.callType === LibSdbTypes.CallType.Create) {
+            msgData = "0x";
+        }
+        else if (entry.calldata !== null) {
+            msgData = entry.calldata;
+        }
+
+        const msgValue = entry.value !== null && entry.callType !== LibSdbTypes.CallType.DelegateCall ? entry.value.toString(10) : toUint(msg.value);
+        const gasLeft = isCurrentFrame ? toUint(this._stepData!.vmData.gasLeft) : "(unknown)";
+
+        const globalVariable = (name: string, type: string, value: string): any => {
+            return {
+                name: name,
+                evaluateName: name,
+                type: type,
+                value: value,
+                variablesReference: 0
+            };
+        };
+
+        return [
+            globalVariable("msg.sender", "address", toHex(msg.sender, 20)),
+            globalVariable("msg.value", "uint", msgValue),
+            globalVariable("msg.data", "bytes", msgData),
+            globalVariable("msg.sig", "bytes4", msgData.length >= 10 ? msgData.substr(0, 10) : "(none)"),
+            globalVariable("tx.origin", "address", toHex(tx.origin, 20)),
+            globalVariable("tx.gasprice", "uint", toUint(tx.gasprice)),
+            globalVariable("block.number", "uint", toUint(block.number)),
+            globalVariable("block.timestamp", "uint", toUint(block.timestamp)),
+            globalVariable("block.coinbase", "address", toHex(block.coinbase, 20)),
+            globalVariable("block.difficulty", "uint", toUint(block.difficulty)),
+            globalVariable("block.gaslimit", "uint", toUint(block.gaslimit)),
+            globalVariable("gasleft()", "uint", gasLeft),
+            globalVariable("this.balance", "uint", toUint(globals.balance))
+        ];
+    }
+
+    // a variable's own format takes precedence over the format of the request
+    private formatVariables(variablesReference: number, variables: any[], format: LibSdbTypes.ValueFormat): void {
+        for (let i = 0; i < variables.length; i++) {
+            const variable = variables[i];
+            const variableFormat = this._variableFormats.get(this.variableFormatKey(variable.id, variablesReference, variable.name));
+            const value = LibSdbUtils.formatValue(variable.type, variable.value, Object.assign({}, format, variableFormat));
+            variable.value = value;
+            if ("result" in variable) {
+                variable.result = value;
+            }
+        }
+    }
+
+    // decoded variables are the same variable when they have the same id and name, names alone are only unique within their container
+    //   the id stays the same when array elements and mapping values are recreated, the name tells the elements apart
+    private variableFormatKey(id: number | undefined, variablesReference: number, name: string): string {
+        return (id !== undefined ? id : variablesReference) + ":" + name;
+    }
+
+    public setVariableFormat(id: number | undefined, variablesReference: number, name: string, format: LibSdbTypes.ValueFormat | null): void {
+        const key = this.variableFormatKey(id, variablesReference, name);
+        if (format === null) {
+            this._variableFormats.delete(key);
+        }
+        else {
+            this._variableFormats.set(key, format);
+        }
+    }
+
+    public addMappingKey(variablesReference: number, key: string): boolean {
+        const detail = this._variableReferenceIds.get(variablesReference);
+        if (!(detail instanceof LibSdbTypes.MappingDetail)) {
+            return false;
+        }
+
+        return detail.addKey(key);
+    }
+
+    public commitEvaluation(): boolean {
+        if (this._pendingStorageChanges === null) {
+            return false;
+        }
+
+        if (this._history.length > 1) {
+            // the changes took effect before the live step, stepping back past it undoes them like any other write
+            const entry = this._history[this._history.length - 2];
+            entry.storageWrites = entry.storageWrites.concat(this._pendingStorageChanges);
+        }
+        this._pendingStorageChanges = null;
+
+        return true;
+    }
+
+    public async revertEvaluation(): Promise<boolean> {
+        if (this._pendingStorageChanges === null) {
+            return false;
+        }
+
+        await this.restoreStorage(this._pendingStorageChanges);
+        this._pendingStorageChanges = null;
+
+        return true;
+    }
+
+    // writes back the values from before the changes, the last change first
+    public async restoreStorage(changes: LibSdbTypes.StorageChange[]): Promise<void> {
+        for (let i = changes.length - 1; i >= 0; i--) {
+            await this._interface.requestSetStorage(changes[i].address, Buffer.from(changes[i].slot, "hex"), Buffer.from(changes[i].before, "hex"));
+        }
+    }
+
+    // tuples of values from an evaluation, expandable like any other variable
+    public addEvaluationResult(name: string, type: string, values: LibSdbTypes.DecodedVariable[]): LibSdbTypes.DecodedVariable {
+        const id = LibSdbTypes.Variable.nextId++;
+        this._evaluationResults.set(id, values);
+
+        const value = "(" + values.map((value) => value.value).join(", ") + ")";
+
+        return <LibSdbTypes.DecodedVariable> {
+            name: name,
+            type: type,
+            variablesReference: values.length > 0 ? id : 0,
+            value: value,
+            result: value
+        };
+    }
+
+    // decodes the value at a single key without adding the key to the mapping's children
+    public async mappingEntry(variablesReference: number, key: string, frameId: number = 0): Promise<LibSdbTypes.DecodedVariable | null> {
+        const detail = this._variableReferenceIds.get(variablesReference);
+        if (this._stepData === null || !(detail instanceof LibSdbTypes.MappingDetail)) {
+            return null;
+        }
+
+        frameId = this.referenceFrame(variablesReference, frameId);
+        const frame = this.frameContext(frameId);
+        const address = this._variableReferenceAddresses.get(variablesReference) || frame.address;
+        detail.updatePointer(frame.stack);
+        const value = detail.entry(key);
+        if (value === null) {
+            return null;
+        }
+
+        let decodedVariable = await value.decode(frame.stack, frame.memory, this._interface, address);
+        decodedVariable.name = "[" + key.trim() + "]";
+        this.bindReferences([decodedVariable], frameId);
+        if (decodedVariable.variablesReference > 0 && address !== frame.address) {
+            this._variableReferenceAddresses.set(decodedVariable.variablesReference, address);
+        }
+
+        return decodedVariable;
+    }
+
     public start(stopOnEntry: boolean) {
         this._breakpoints.verifyAllBreakpoints();
 
@@ -437,59 +1131,167 @@ export class LibSdbRuntime extends EventEmitter {
         this._priorUiCallStack = CircularJSON.parse(CircularJSON.stringify(this._callStack));
         this._priorUiStepData = CircularJSON.parse(CircularJSON.stringify(this._stepData));
 
+        if (reverse || this._historyIndex !== null) {
+            // we're either going backwards or are still behind the live step, either way we replay the history
+            this.runHistory(reverse, stepEvent, content);
+        }
+        else {
+            this.runLive(stepEvent, content);
+        }
+    }
+
+    private runLive(stepEvent: string, content: any = null): void {
         // We should be stopped currently, which is why we're calling this function
         // so we should continue on now
         if (stepEvent !== "stopOnEvalBreakpoint") {
             this.respondToDebugHook(stepEvent, content);
         }
 
-        if (reverse) {
-            // TODO: implement reverse running
-        } else {
-            this.on("step", function handler(this: LibSdbRuntime) {
-                if (this.fireEventsForStep(stepEvent)) {
-                    // we've stopped for some reason. let's not continue
-                    this.removeListener("step", handler);
-
-                    // TODO: handle end of evm?
-                    /*if (this.) {
-                      // we've finished the evm
-                      this._interface.sendEvent("end");
-                    }*/
-                }
-                else {
-                    // this is not the step we're looking for; move along
-                    this.respondToDebugHook(stepEvent);
-                }
-            });
+        this.on("step", async function handler(this: LibSdbRuntime) {
+            if (await this.fireEventsForStep(stepEvent)) {
+                // we've stopped for some reason. let's not continue
+                this.removeListener("step", handler);
+
+                // TODO: handle end of evm?
+                /*if (this.) {
+                  // we've finished the evm
+                  this._interface.sendEvent("end");
+                }*/
+            }
+            else {
+                // this is not the step we're looking for; move along
+                this.respondToDebugHook(stepEvent);
+            }
+        });
+    }
+
+    private async runHistory(reverse: boolean, stepEvent: string, content: any = null): Promise<void> {
+        if (await this.replayHistory(reverse, stepEvent)) {
+            return;
         }
+
+        // we made it back to the live step, which the vm is still waiting on
+        if (await this.fireEventsForStep(stepEvent)) {
+            return;
+        }
+
+        this.runLive(stepEvent, content);
     }
 
-    private fireEventsForStep(stepEvent?: string): boolean {
-        if (this._stepData === null || this._stepData.location === null || this._stepData.location.start === null) {
-            return false;
+    private recordHistory(): void {
+        if (this._stepData === null || !this._recordHistory) {
+            return;
         }
 
-        const contract = this._contractsByAddress.get(this._stepData.contractAddress)!;
-        const fileId = parseInt(this._stepData.source.file);
-        let file: LibSdbTypes.File;
-        if (!isNaN(fileId)) {
-            file = this._filesById.get(fileId)!;
+        // step data and frames aren't changed once they're made, so the entries share them instead of copying their
+        //   stack and memory
+        let callStack: LibSdbTypes.StackFrame[] = [];
+        for (let i = 0; i < this._callStack.length; i++) {
+            callStack.push(Object.assign(new LibSdbTypes.StackFrame(), this._callStack[i]));
         }
-        else {
-            file = this._files.get(contract.sourcePath)!;
+
+        const entry = new LibSdbTypes.HistoryEntry(this._stepData, callStack, Object.assign(new LibSdbTypes.StackFrame(), this._currentFrame));
+        this._history.push(entry);
+        this._historySize += entry.size();
+        while (this._history.length > 1 && (this._history.length > LibSdbConstants.MaxStepHistory || this._historySize > LibSdbConstants.MaxStepHistorySize)) {
+            this._historySize -= this._history.shift()!.size();
         }
-        const ln = this._stepData.location.start.line;
+    }
 
-        if (this._stepData.exception !== undefined) {
-            this._interface.sendEvent("stopOnException");
-            return true;
+    private restoreHistory(index: number): void {
+        const entry = this._history[index].clone();
+        this._stepData = entry.stepData;
+        this._callStack = entry.callStack;
+        this._currentFrame = entry.currentFrame;
+        this._historyIndex = index;
+    }
+
+    // brings the vm's storage to what it was at the entry by undoing (going back) or redoing (going forward) the
+    //   writes of the entries in between
+    private async restoreHistoryStorage(index: number): Promise<void> {
+        const current = this._historyStorageIndex === null ? this._history.length - 1 : this._historyStorageIndex;
+
+        for (let i = current - 1; i >= index; i--) {
+            const writes = this._history[i].storageWrites;
+            for (let j = writes.length - 1; j >= 0; j--) {
+                await this._interface.requestSetStorage(writes[j].address, Buffer.from(writes[j].slot, "hex"), Buffer.from(writes[j].before, "hex"));
+            }
+        }
+
+        for (let i = current; i < index; i++) {
+            const writes = this._history[i].storageWrites;
+            for (let j = 0; j < writes.length; j++) {
+                await this._interface.requestSetStorage(writes[j].address, Buffer.from(writes[j].slot, "hex"), Buffer.from(writes[j].after, "hex"));
+            }
+        }
+
+        this._historyStorageIndex = index >= this._history.length - 1 ? null : index;
+    }
+
+    // returns true if we stopped somewhere in the history, false if we replayed forward to the live step
+    private async replayHistory(reverse: boolean, stepEvent: string): Promise<boolean> {
+        if (this._historyIndex === null) {
+            if (this._history.length === 0) {
+                this._interface.sendEvent("stopOnEntry");
+                return true;
+            }
+
+            // the last entry is the live step, hold on to it so we can come back to it
+            this._liveStepData = this._stepData;
+            this._liveCallStack = this._callStack;
+            this._liveCurrentFrame = this._currentFrame;
+            this._historyIndex = this._history.length - 1;
+        }
+
+        let index = this._historyIndex;
+        while (true) {
+            index += reverse ? -1 : 1;
+
+            if (index < 0) {
+                // we can't go back further than what we've recorded
+                this.restoreHistory(0);
+                await this.restoreHistoryStorage(0);
+                this._interface.sendEvent("stopOnEntry");
+                return true;
+            }
+            else if (index >= this._history.length - 1) {
+                await this.restoreHistoryStorage(this._history.length - 1);
+                this._stepData = this._liveStepData;
+                this._callStack = this._liveCallStack;
+                this._currentFrame = this._liveCurrentFrame;
+                this._liveStepData = null;
+                this._liveCallStack = [];
+                this._liveCurrentFrame = new LibSdbTypes.StackFrame();
+                this._historyIndex = null;
+                return false;
+            }
+
+            // storage is only brought along once we know where we stop
+            this.restoreHistory(index);
+            if (this.fireEventsForHistoryStep(stepEvent)) {
+                await this.restoreHistoryStorage(index);
+                return true;
+            }
+        }
+    }
+
+    private currentFile(): LibSdbTypes.File | undefined {
+        const contract = this._contractsByAddress.get(this._stepData!.contractAddress)!;
+        const fileId = parseInt(this._stepData!.source.file);
+        if (!isNaN(fileId)) {
+            return this._filesById.get(fileId);
+        }
+        else {
+            return this._files.get(contract.sourcePath);
         }
+    }
 
+    private checkStepEvent(stepEvent: string | undefined, file: LibSdbTypes.File): boolean {
         if (this._priorUiCallStack && this._priorUiStepData) {
+            const ln = this._stepData!.location.start.line;
             const callDepthChange = this._callStack.length - this._priorUiCallStack.length;
             const differentLine = ln !== this._priorUiStepData.location.start.line;
-            const sameFile = this._stepData.source.file === this._priorUiStepData.source.file;
+            const sameFile = this._stepData!.source.file === this._priorUiStepData.source.file;
             switch (stepEvent) {
                 case "stopOnStepOver":
                     if (callDepthChange === 0 && differentLine && sameFile) {
@@ -498,7 +1300,7 @@ export class LibSdbRuntime extends EventEmitter {
                     }
                     break;
                 case "stopOnStepIn":
-                    const node = LibSdbUtils.SourceMappingDecoder.findNodeAtSourceLocation("FunctionDefinition", this._stepData.source, { AST: file.ast });
+                    const node = LibSdbUtils.SourceMappingDecoder.findNodeAtSourceLocation("FunctionDefinition", this._stepData!.source, { AST: file.ast });
                     if (callDepthChange > 0 && (!sameFile || differentLine) && node !== null) {
                         this._interface.sendEvent("stopOnStepIn");
                         return true;
@@ -515,17 +1317,154 @@ export class LibSdbRuntime extends EventEmitter {
             }
         }
 
+        return false;
+    }
+
+    private checkWatchpoints(): boolean {
+        if (this._breakpoints._watchpoints.length > 0) {
+            // is there a write to a watched storage slot?
+            const wps = this._breakpoints.watchpointsHit(this._stepData!);
+
+            if (wps.length > 0) {
+                const stack = this._stepData!.vmData.stack;
+                this._interface.sendEvent("stopOnDataBreakpoint", {
+                    id: wps[0].id,
+                    expression: wps[0].expression,
+                    slot: "0x" + stack[stack.length - 1].toString(16),
+                    value: stack.length > 1 ? "0x" + stack[stack.length - 2].toString(16) : ""
+                });
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    private checkFunctionBreakpoints(): boolean {
+        if (this._breakpoints._functionBreakpoints.length > 0) {
+            // is there a function breakpoint?
+            const contract = this._contractsByAddress.get(this._stepData!.contractAddress)!;
+            const bytecode = this._stepData!.vmData.runtime ? contract.runtimeBytecode : contract.creationBytecode;
+            const pc = this._stepData!.vmData.pc;
+            const fbps = this._breakpoints._functionBreakpoints.filter(fbp => (bytecode.functionBreakpoints.get(fbp.id) || []).indexOf(pc) >= 0);
+
+            if (fbps.length > 0) {
+                this._interface.sendEvent('stopOnBreakpoint');
+                return true;
+            }
+        }
+
+        return false;
+    }
+
+    private fireEventsForHistoryStep(stepEvent: string): boolean {
+        if (this._stepData === null || this._stepData.location === null || this._stepData.location.start === null) {
+            return false;
+        }
+
+        const file = this.currentFile();
+        if (file === undefined) {
+            return false;
+        }
+
+        if (this.checkStepEvent(stepEvent, file) || this.checkWatchpoints() || this.checkFunctionBreakpoints()) {
+            return true;
+        }
+
+        // we can't evaluate anything against a step that already happened, so conditions, hit counts,
+        //   and logpoints are ignored while replaying
+        const ln = this._stepData.location.start.line;
+        const differentLine = this._priorUiStepData === null || ln !== this._priorUiStepData.location.start.line;
+        const sameFile = this._priorUiStepData === null || this._stepData.source.file === this._priorUiStepData.source.file;
+        const bps = file.breakpoints.filter(bp => bp.line === ln && bp.visible && bp.logMessage === undefined && (!sameFile || differentLine));
+
+        if (bps.length > 0) {
+            this._interface.sendEvent('stopOnBreakpoint');
+            return true;
+        }
+
+        return false;
+    }
+
+    // a line takes many steps to execute, a breakpoint is hit once each time execution gets to it: while fast stepping
+    //   the hook only reports the pc the breakpoint was set at, one step at a time it's the first step of the line
+    private reachedBreakpoint(bp: LibSdbTypes.Breakpoint): boolean {
+        if (!this._fastStepping) {
+            return this.enteredLine();
+        }
+
+        const contract = this._contractsByAddress.get(this._stepData!.contractAddress);
+        if (contract === undefined || this._stepData!.events.indexOf("breakpoint") === -1) {
+            return false;
+        }
+
+        const bytecode = this._stepData!.vmData.runtime ? contract.runtimeBytecode : contract.creationBytecode;
+
+        return bytecode.breakpoints.get(bp.id) === this._stepData!.vmData.pc;
+    }
+
+    // whether the step before this one was somewhere else, regardless of whether we stopped there
+    private enteredLine(): boolean {
+        const prior = this._priorStepData;
+        if (prior === null || !prior.source || !prior.location || prior.location.start === null) {
+            return true;
+        }
+
+        return this._stepData!.location.start.line !== prior.location.start.line || this._stepData!.source.file !== prior.source.file;
+    }
+
+    private async fireEventsForStep(stepEvent?: string): Promise<boolean> {
+        if (this._stepData === null || this._stepData.location === null || this._stepData.location.start === null) {
+            return false;
+        }
+
+        const file = this.currentFile();
+        const ln = this._stepData.location.start.line;
+
+        if (this._stepData.exception !== undefined) {
+            const exception = this._breakpoints.exceptionInfo(this._stepData);
+            if (this._breakpoints.exceptionFilterMatches(exception)) {
+                this._interface.sendEvent("stopOnException", {
+                    kind: LibSdbTypes.ExceptionKindToString(exception.kind),
+                    message: exception.message,
+                    reason: exception.reason,
+                    uncaught: exception.uncaught
+                });
+                return true;
+            }
+        }
+
+        if (file !== undefined && this.checkStepEvent(stepEvent, file)) {
+            return true;
+        }
+
+        if (stepEvent !== "stopOnEvalBreakpoint" && (this.checkWatchpoints() || this.checkFunctionBreakpoints())) {
+            return true;
+        }
+
         if (file !== undefined) {
             // is there a breakpoint?
-            let differentLine: boolean = false;
-            let sameFile: boolean = true;
-            if (this._priorUiStepData) {
-                differentLine = ln !== this._priorUiStepData.location.start.line;
-                sameFile = this._stepData.source.file === this._priorUiStepData.source.file;
+            const bpsOnLine = file.breakpoints.filter(bp => bp.line === ln && this.reachedBreakpoint(bp) && ((bp.visible && stepEvent !== "stopOnEvalBreakpoint") || (!bp.visible && stepEvent === "stopOnEvalBreakpoint")));
+
+            // conditions and hit counts are only checked for user breakpoints; evaluation breakpoints always stop
+            let bps: LibSdbTypes.Breakpoint[] = [];
+            for (let i = 0; i < bpsOnLine.length; i++) {
+                const bp = bpsOnLine[i];
+                if (!bp.visible) {
+                    bps.push(bp);
+                }
+                else if (await this._breakpoints.conditionMet(bp, file) && this._breakpoints.hitConditionMet(bp)) {
+                    if (bp.logMessage !== undefined) {
+                        // logpoints print their message and let execution continue
+                        const message = await this._breakpoints.formatLogMessage(bp);
+                        this._interface.sendEvent("output", message, file.fullPath(), LibSdbUtils.getOriginalLine(ln, file.lineOffsets));
+                    }
+                    else {
+                        bps.push(bp);
+                    }
+                }
             }
 
-            const bps = file.breakpoints.filter(bp => bp.line === ln && (this._priorUiStepData === null || !sameFile || differentLine) && ((bp.visible && stepEvent !== "stopOnEvalBreakpoint") || (!bp.visible && stepEvent === "stopOnEvalBreakpoint")));
-
             if (bps.length > 0) {
                 // send 'stopped' event
                 this._interface.sendEvent('stopOnBreakpoint');
@@ -582,6 +1521,21 @@ export class LibSdbRuntime extends EventEmitter {
         }
     }
 
+    public async sendHashLocations(address: string): Promise<void> {
+        const contract = this._contractsByAddress.get(address);
+        const hashLocations: number[] = [];
+        if (contract) {
+            for (const entry of contract.runtimeBytecode.pcMap.entries()) {
+                if (LibSdbPreimageRecorder.isHashStep(entry[1])) {
+                    hashLocations.push(entry[0]);
+                }
+            }
+            if (hashLocations.length > 0) {
+                await this._interface.requestSendHashLocations(address, hashLocations);
+            }
+        }
+    }
+
     public async sendFunctionJumpDestinations(address: string): Promise<void> {
         const contract = this._contractsByAddress.get(address);
         const jumpDestinations: number[] = [];
@@ -604,6 +1558,7 @@ export class LibSdbRuntime extends EventEmitter {
                         const pc = indexMap.get(index);
                         if (pc !== undefined) {
                             jumpDestinations.push(pc);
+                            contract.functionEntryPoints.set(pc, node.attributes.name || "(fallback)");
                         }
                     }
 
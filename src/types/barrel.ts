@@ -4,11 +4,16 @@ export * from "./astScope";
 export * from "./breakpoint";
 export * from "./contract";
 export * from "./evaluation";
+export * from "./exception";
 export * from "./expressionFunction";
 export * from "./file";
+export * from "./functionBreakpoint";
+export * from "./history";
 export * from "./misc";
 export * from "./stackFrame";
 export * from "./stepData";
+export * from "./valueFormat";
+export * from "./watchpoint";
 export * from "./variable/variable";
 export * from "./variable/detail/value";
 export * from "./variable/detail/enum";
@@ -5,8 +5,13 @@ export class Breakpoint {
     verified: boolean;
     visible: boolean;
     originalSource: boolean;
+    condition?: string; // solidity expression, the breakpoint only stops when this evaluates to true
+    hitCondition?: string; // "N"/"==N" stops on the Nth hit, "%N" on every Nth hit, ">N"/">=N" after N hits
+    hitCount: number; // number of hits in the current transaction
+    logMessage?: string; // logpoint template, `{}` segments are evaluated and the breakpoint never stops
 
     constructor() {
+        this.hitCount = 0;
     }
 
     clone(): Breakpoint {
@@ -22,6 +27,14 @@ export class Breakpoint {
 
         clone.originalSource = this.originalSource;
 
+        clone.condition = this.condition;
+
+        clone.hitCondition = this.hitCondition;
+
+        clone.hitCount = this.hitCount;
+
+        clone.logMessage = this.logMessage;
+
         return clone;
     }
 }
\ No newline at end of file
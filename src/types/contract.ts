@@ -9,10 +9,12 @@ export class ContractBytecode {
     srcMap: string;
     pcMap: Map<number, LibSdbTypes.EvmInstruction>;
     breakpoints: Map<number, number>;
+    functionBreakpoints: Map<number, number[]>; // key: function breakpoint id, value: pcs of the entry JUMPDESTs it stops at
 
     constructor() {
         this.pcMap = new Map<number, LibSdbTypes.EvmInstruction>();
         this.breakpoints = new Map<number, number>();
+        this.functionBreakpoints = new Map<number, number[]>();
     }
 
     clone(): ContractBytecode {
@@ -30,6 +32,10 @@ export class ContractBytecode {
             clone.breakpoints.set(v[0], v[1]);
         }
 
+        for (const v of this.functionBreakpoints) {
+            clone.functionBreakpoints.set(v[0], v[1].slice());
+        }
+
         return clone;
     }
 }
@@ -40,6 +46,9 @@ export class Contract {
     addresses: string[];
     scopeVariableMap: ScopeVariableMap;
     functionNames: Map<number, string>; // key: pc, value: hash
+    functionSelectors: Map<string, string>; // key: function signature, value: 4-byte selector
+    abi: any[];
+    functionEntryPoints: Map<number, string>; // key: pc of the function's JUMPDEST, value: function name
     creationBytecode: ContractBytecode;
     runtimeBytecode: ContractBytecode;
     ast: Ast;
@@ -51,6 +60,9 @@ export class Contract {
     constructor() {
         this.scopeVariableMap = new Map<number, VariableMap>();
         this.functionNames = new Map<number, string>();
+        this.functionSelectors = new Map<string, string>();
+        this.abi = [];
+        this.functionEntryPoints = new Map<number, string>();
         this.creationBytecode = new ContractBytecode();
         this.runtimeBytecode = new ContractBytecode();
         this.stateVariables = [];
@@ -81,6 +93,16 @@ export class Contract {
             clone.functionNames.set(v[0], v[1]);
         }
 
+        for (const v of this.functionSelectors) {
+            clone.functionSelectors.set(v[0], v[1]);
+        }
+
+        clone.abi = JSON.parse(JSON.stringify(this.abi));
+
+        for (const v of this.functionEntryPoints) {
+            clone.functionEntryPoints.set(v[0], v[1]);
+        }
+
         clone.creationBytecode = this.creationBytecode.clone();
 
         clone.runtimeBytecode = this.runtimeBytecode.clone();
@@ -2,11 +2,12 @@ import { Variable } from "./variable/variable";
 
 export class Evaluation {
     functionName: string;
-    returnVariable: Variable;
+    returnType: string; // type of the evaluated expression, `tuple(...)` when it has more than one value
+    returnVariables: Variable[];
     contractAddress: string;
 
     constructor() {
-        this.returnVariable = new Variable();
+        this.returnVariables = [];
     }
 
     clone(): Evaluation {
@@ -14,12 +15,87 @@ export class Evaluation {
 
         clone.functionName = this.functionName;
 
+        clone.returnType = this.returnType;
+
+        for (let i = 0; i < this.returnVariables.length; i++) {
+            clone.returnVariables.push(this.returnVariables[i].clone());
+        }
+
         clone.contractAddress = this.contractAddress;
 
         return clone;
     }
 }
 
+export enum EvaluationErrorKind {
+    Compile, // solc rejected the expression
+    UnknownIdentifier, // solc's "Undeclared identifier"
+    Revert, // the evaluation reverted or hit an invalid opcode
+    OutOfGas,
+    Other
+}
+
+export function EvaluationErrorKindToString(kind: EvaluationErrorKind): string {
+    switch (kind) {
+        case EvaluationErrorKind.Compile:
+            return "compile";
+        case EvaluationErrorKind.UnknownIdentifier:
+            return "unknownIdentifier";
+        case EvaluationErrorKind.Revert:
+            return "revert";
+        case EvaluationErrorKind.OutOfGas:
+            return "outOfGas";
+        default:
+            return "other";
+    }
+}
+
+export class EvaluationError {
+    kind: EvaluationErrorKind;
+    message: string;
+    severity: string; // as solc reports it, "error" for errors that don't come from solc
+    location: { start: number, length: number } | null; // within the evaluated expression
+
+    constructor(kind: EvaluationErrorKind, message: string, severity: string = "error", location: { start: number, length: number } | null = null) {
+        this.kind = kind;
+        this.message = message;
+        this.severity = severity;
+        this.location = location;
+    }
+
+    clone(): EvaluationError {
+        return new EvaluationError(this.kind, this.message, this.severity, this.location === null ? null : { start: this.location.start, length: this.location.length });
+    }
+
+    payload(): any {
+        return {
+            "kind": EvaluationErrorKindToString(this.kind),
+            "message": this.message,
+            "severity": this.severity,
+            "location": this.location
+        };
+    }
+}
+
+// a storage slot an evaluation or a recorded step wrote to, values are 32 byte hex strings
+export class StorageChange {
+    address: string;
+    slot: string;
+    before: string;
+    after: string;
+
+    constructor(address: string, slot: string, before: string, after: string) {
+        this.address = address;
+        this.slot = slot;
+        this.before = before;
+        this.after = after;
+    }
+
+    clone(): StorageChange {
+        return new StorageChange(this.address, this.slot, this.before, this.after);
+    }
+}
+
 export class EvaluationRequest {
     evaluationBytecode: string;
     evaluationStartPc: number;
@@ -28,11 +104,14 @@ export class EvaluationRequest {
     runtimeBytecode: string;
     runtimePc: number;
 
-    constructor(evaluationBytecode: string, evaluationStartPc: number, evaluationEndPc: number, runtimeBytecode: string, runtimePc: number) {
+    recordStorage: boolean; // have the hook report the slots the evaluation writes to and their prior values
+
+    constructor(evaluationBytecode: string, evaluationStartPc: number, evaluationEndPc: number, runtimeBytecode: string, runtimePc: number, recordStorage: boolean = false) {
         this.evaluationBytecode = evaluationBytecode;
         this.evaluationStartPc = evaluationStartPc;
         this.evaluationEndPc = evaluationEndPc;
         this.runtimeBytecode = runtimeBytecode;
         this.runtimePc = runtimePc;
+        this.recordStorage = recordStorage;
     }
 }
\ No newline at end of file
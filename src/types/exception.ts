@@ -0,0 +1,45 @@
+export enum ExceptionKind {
+    Revert, // REVERT, i.e. `revert()` or a failed `require()`
+    Assert, // INVALID, i.e. a failed `assert()`
+    OutOfGas,
+    Other
+}
+
+export function ExceptionKindToString(kind: ExceptionKind): string {
+    switch (kind) {
+        case ExceptionKind.Revert:
+            return "revert";
+        case ExceptionKind.Assert:
+            return "assert";
+        case ExceptionKind.OutOfGas:
+            return "outOfGas";
+        default:
+            return "other";
+    }
+}
+
+export class ExceptionInfo {
+    kind: ExceptionKind;
+    message: string;
+    reason: string | null; // decoded revert reason, if there was one
+    uncaught: boolean | null; // the exception happened in the outermost call of the transaction, null if the call depth isn't known
+
+    constructor() {
+        this.reason = null;
+        this.uncaught = null;
+    }
+
+    clone(): ExceptionInfo {
+        let clone = new ExceptionInfo();
+
+        clone.kind = this.kind;
+
+        clone.message = this.message;
+
+        clone.reason = this.reason;
+
+        clone.uncaught = this.uncaught;
+
+        return clone;
+    }
+}
\ No newline at end of file
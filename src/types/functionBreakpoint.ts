@@ -0,0 +1,20 @@
+export class FunctionBreakpoint {
+    id: number;
+    name: string; // `Contract.function`, `function`, either with an optional `(types)` signature, or a 4-byte selector like `0xa9059cbb`
+    verified: boolean;
+
+    constructor() {
+    }
+
+    clone(): FunctionBreakpoint {
+        let clone = new FunctionBreakpoint();
+
+        clone.id = this.id;
+
+        clone.name = this.name;
+
+        clone.verified = this.verified;
+
+        return clone;
+    }
+}
\ No newline at end of file
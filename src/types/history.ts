@@ -0,0 +1,40 @@
+import { StepData } from "./stepData";
+import { StackFrame } from "./stackFrame";
+import { StorageChange } from "./evaluation";
+
+export class HistoryEntry {
+    stepData: StepData;
+    callStack: StackFrame[];
+    currentFrame: StackFrame;
+    storageWrites: StorageChange[]; // made from this step up to the next entry, in the order they happened
+
+    constructor(stepData: StepData, callStack: StackFrame[], currentFrame: StackFrame) {
+        this.stepData = stepData;
+        this.callStack = callStack;
+        this.currentFrame = currentFrame;
+        this.storageWrites = [];
+    }
+
+    clone(): HistoryEntry {
+        let callStack: StackFrame[] = [];
+
+        for (let i = 0; i < this.callStack.length; i++) {
+            callStack.push(this.callStack[i].clone());
+        }
+
+        let clone = new HistoryEntry(this.stepData.clone(), callStack, this.currentFrame.clone());
+
+        for (let i = 0; i < this.storageWrites.length; i++) {
+            clone.storageWrites.push(this.storageWrites[i].clone());
+        }
+
+        return clone;
+    }
+
+    // roughly the bytes the entry holds on to; the frames share their stack and memory with the entries before them
+    size(): number {
+        const vmData = this.stepData.vmData;
+
+        return 1024 + 64 * vmData.stack.length + 8 * (vmData.memory ? vmData.memory.length : 0) + 256 * this.callStack.length;
+    }
+}
\ No newline at end of file
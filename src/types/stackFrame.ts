@@ -1,10 +1,64 @@
+import { AstScope } from "./astScope";
+import { BN } from "bn.js";
+
+export enum CallType {
+    Internal, // a JUMP into another function of the same contract
+    Call,
+    DelegateCall,
+    StaticCall,
+    CallCode,
+    Create
+}
+
+export function CallTypeToString(callType: CallType): string {
+    switch (callType) {
+        case CallType.Call:
+            return "CALL";
+        case CallType.DelegateCall:
+            return "DELEGATECALL";
+        case CallType.StaticCall:
+            return "STATICCALL";
+        case CallType.CallCode:
+            return "CALLCODE";
+        case CallType.Create:
+            return "CREATE";
+        default:
+            return "internal";
+    }
+}
 
 export class StackFrame {
     name: string;
     file: string;
     line: number;
+    depth: number;
+
+    // how this frame was entered; value, gas, and calldata are only known for message calls
+    address: string;
+    callType: CallType;
+    value: BN | null;
+    gas: BN | null;
+    calldata: string | null;
+
+    // snapshot of the frame at the time it was pushed, used to inspect its variables later on
+    scope: AstScope[];
+    stackLength: number;
+    stack: BN[] | null; // only for frames that made a message call, internal calls leave the caller's stack intact
+    memory: (number | null)[] | null;
+    pc: number | null; // of the instruction that left the frame, the jump or call
+    opcode: string | null;
 
     constructor() {
+        this.callType = CallType.Internal;
+        this.value = null;
+        this.gas = null;
+        this.calldata = null;
+        this.scope = [];
+        this.stackLength = 0;
+        this.stack = null;
+        this.memory = null;
+        this.pc = null;
+        this.opcode = null;
     }
 
     clone(): StackFrame {
@@ -16,6 +70,37 @@ export class StackFrame {
 
         clone.line = this.line;
 
+        clone.depth = this.depth;
+
+        clone.address = this.address;
+
+        clone.callType = this.callType;
+
+        clone.value = this.value === null ? null : this.value.clone();
+
+        clone.gas = this.gas === null ? null : this.gas.clone();
+
+        clone.calldata = this.calldata;
+
+        for (let i = 0; i < this.scope.length; i++) {
+            clone.scope.push(this.scope[i].clone());
+        }
+
+        clone.stackLength = this.stackLength;
+
+        if (this.stack !== null) {
+            clone.stack = [];
+            for (let i = 0; i < this.stack.length; i++) {
+                clone.stack.push(this.stack[i].clone());
+            }
+        }
+
+        clone.memory = this.memory === null ? null : this.memory.slice();
+
+        clone.pc = this.pc;
+
+        clone.opcode = this.opcode;
+
         return clone;
     }
 }
\ No newline at end of file
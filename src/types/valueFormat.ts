@@ -0,0 +1,12 @@
+import { DebugProtocol } from "vscode-debugprotocol";
+
+export type ValueNotation = "decimal" | "hex" | "scientific";
+
+export type EtherUnit = "wei" | "gwei" | "ether";
+
+// extends DAP's ValueFormat, `hex: true` is the same as `notation: "hex"`
+export interface ValueFormat extends DebugProtocol.ValueFormat {
+    notation?: ValueNotation;
+    unit?: EtherUnit; // only applied to uint values
+    checksum?: boolean; // EIP-55 checksummed addresses
+}
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { LibSdbInterface } from "../../../interface";
+import { LibSdbTypes } from "../../types";
+import { LibSdbRuntime } from "../../../runtime";
+import { decode as decodeValue } from "./value";
+import { readWord, abiArgumentOffset } from "../../../utils/abi";
+
+export async function callData(_interface: LibSdbInterface): Promise<Buffer> {
+    const content = await _interface.requestCallData();
+
+    return content.value instanceof Buffer ? content.value : Buffer.from(content.value || "", "hex");
+}
+
+// offset of a calldata argument within the transaction input, found through the ABI of the function it belongs to
+export function argumentOffset(variable: LibSdbTypes.Variable, address: string, calldata: Buffer): number | null {
+    const contract = LibSdbRuntime.instance()._contractsByAddress.get(address);
+    if (contract === undefined || variable.functionName === null) {
+        return null;
+    }
+
+    return abiArgumentOffset(contract.abi, variable.functionName, variable.name, calldata);
+}
+
+export function decode(offset: number, detail: LibSdbTypes.ValueDetail | LibSdbTypes.EnumDetail, calldata: Buffer, address?: string): string {
+    if (offset + 32 > calldata.length) {
+        return "(invalid calldata location)";
+    }
+
+    return decodeValue(detail, readWord(calldata, offset), address);
+}
\ No newline at end of file
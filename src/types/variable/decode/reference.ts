@@ -0,0 +1,84 @@
+import { LibSdbTypes } from "../../types";
+import { readWord, dataRange } from "../../../utils/abi";
+import { BN } from "bn.js";
+
+function isValue(detail: LibSdbTypes.VariableDetailType): boolean {
+    return detail instanceof LibSdbTypes.ValueDetail || detail instanceof LibSdbTypes.ContractDetail;
+}
+
+// pointers and offsets are read from data we can't trust, null if it points outside of the data
+export function dataPointer(pointer: BN, size: number): number | null {
+    const range = dataRange(pointer, new BN(0), size);
+
+    return range === null ? null : range.offset;
+}
+
+// in memory, value types are stored in place and every other type is a pointer to where it's stored
+export function memoryChildPosition(child: LibSdbTypes.VariableDetailType, position: number, memory: (number | null)[]): number | null {
+    return isValue(child) ? position : dataPointer(readWord(memory, position), memory.length);
+}
+
+// the ABI encodes static types in place, dynamic types store an offset relative to the start of the enclosing head
+export function callDataChildPosition(child: LibSdbTypes.VariableDetailType, position: number, start: number, calldata: Buffer): number | null {
+    if (!callDataIsDynamic(child)) {
+        return position;
+    }
+
+    const offset = dataPointer(readWord(calldata, position), calldata.length - start);
+
+    return offset === null ? null : start + offset;
+}
+
+export function callDataIsDynamic(detail: LibSdbTypes.VariableDetailType): boolean {
+    if (detail instanceof LibSdbTypes.ArrayDetail) {
+        return detail.isDynamic || callDataIsDynamic(detail.memberType);
+    }
+    else if (detail instanceof LibSdbTypes.StructDetail) {
+        return detail.members.some((member) => member.detail !== null && callDataIsDynamic(member.detail));
+    }
+
+    return false;
+}
+
+export function callDataHeadSize(detail: LibSdbTypes.VariableDetailType): number {
+    if (callDataIsDynamic(detail)) {
+        return 32;
+    }
+    else if (detail instanceof LibSdbTypes.ArrayDetail) {
+        return detail.length * callDataHeadSize(detail.memberType);
+    }
+    else if (detail instanceof LibSdbTypes.StructDetail) {
+        return detail.members.reduce((size, member) => size + (member.detail === null ? 0 : callDataHeadSize(member.detail)), 0);
+    }
+
+    return 32;
+}
+
+// sets where the child is stored given the position of its slot in the parent, returns false if we can't tell
+export function applyChildPosition(child: LibSdbTypes.VariableDetailType, location: LibSdbTypes.VariableLocation, position: number, start: number, data: Buffer | (number | null)[]): boolean {
+    if (child instanceof LibSdbTypes.MappingDetail) {
+        return false;
+    }
+
+    let absolutePosition: number | null;
+    if (location === LibSdbTypes.VariableLocation.CallData && data instanceof Buffer) {
+        absolutePosition = callDataChildPosition(child, position, start, data);
+    }
+    else if (!(data instanceof Buffer)) {
+        absolutePosition = memoryChildPosition(child, position, data);
+    }
+    else {
+        return false;
+    }
+
+    if (absolutePosition === null) {
+        return false;
+    }
+
+    if (child instanceof LibSdbTypes.ValueDetail || child instanceof LibSdbTypes.ArrayDetail || child instanceof LibSdbTypes.StructDetail || child instanceof LibSdbTypes.ContractDetail) {
+        child.absolutePosition = absolutePosition;
+        return true;
+    }
+
+    return false;
+}
\ No newline at end of file
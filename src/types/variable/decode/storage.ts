@@ -19,7 +19,12 @@ export async function decode(position: BN, offset: number, length: number, detai
         if (end < 0) {
             end = 0;
         }
-        value = decodeValue(detail, new BN(content.value.slice(start, end)));
+        let word = new BN(content.value.slice(start, end));
+        if (detail.type === LibSdbTypes.VariableType.FixedByteArray) {
+            // bytesN are packed as is in storage, but left aligned everywhere else
+            word = word.shln((32 - (end - start)) * 8);
+        }
+        value = decodeValue(detail, word, address);
     }
 
     return value;
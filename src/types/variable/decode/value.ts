@@ -1,42 +1,74 @@
 import { BN } from "bn.js";
 import { LibSdbTypes } from "../../types";
+import { LibSdbRuntime } from "../../../runtime";
+import { shiftDecimals } from "../../../utils/format";
 
-export function decode(detail: LibSdbTypes.ValueDetail | LibSdbTypes.EnumDetail, value: BN) {
+// internal functions are the pc of the function's entry, the low 4 bytes are the runtime code's pc
+function decodeInternalFunction(value: BN, address?: string): string {
+    const pc = value.maskn(32).toNumber();
+    const contract = address === undefined ? undefined : LibSdbRuntime.instance()._contractsByAddress.get(address);
+    if (contract !== undefined && contract.functionEntryPoints.has(pc)) {
+        return contract.name + "." + contract.functionEntryPoints.get(pc)!;
+    }
+
+    return pc === 0 ? "(unassigned function)" : "(internal function at pc " + pc + ")";
+}
+
+// external functions are the 20 byte address followed by the 4 byte selector
+function decodeExternalFunction(value: BN): string {
+    if (value.bitLength() > 192) {
+        // left aligned, as in memory and calldata
+        value = value.shrn(64);
+    }
+
+    const selector = value.maskn(32).toString(16, 8);
+    const address = value.shrn(32).toString(16, 40);
+
+    let name = "0x" + selector;
+    const contract = LibSdbRuntime.instance()._contractsByAddress.get(address);
+    if (contract !== undefined) {
+        for (const entry of contract.functionSelectors) {
+            if (entry[1] === selector) {
+                name = contract.name + "." + entry[0];
+                break;
+            }
+        }
+    }
+
+    return name + " @ 0x" + address;
+}
+
+// values are given as they are on the stack (bytesN left aligned, the rest right aligned), higher order bytes may be dirty
+export function decode(detail: LibSdbTypes.ValueDetail | LibSdbTypes.EnumDetail, value: BN, address?: string) {
     let v: string = "";
-    //let num;
+    const bits = (detail.storageLength || 32) * 8;
     switch (detail.type) {
         case LibSdbTypes.VariableType.Boolean:
-            v = value.eqn(1) ? "true" : "false";
+            v = value.maskn(8).isZero() ? "false" : "true";
             break;
         case LibSdbTypes.VariableType.UnsignedInteger:
-            v = value.toString();
+            v = value.maskn(bits).toString();
             break;
         case LibSdbTypes.VariableType.Integer:
-            v = value.fromTwos(256).toString();
+            v = value.maskn(bits).fromTwos(bits).toString();
             break;
         case LibSdbTypes.VariableType.FixedPoint:
-            // not supported yet in Solidity (2/21/2018) per solidity.readthedocs.io
+            v = shiftDecimals(value.maskn(bits).fromTwos(bits), detail.decimals);
+            break;
+        case LibSdbTypes.VariableType.UnsignedFixedPoint:
+            v = shiftDecimals(value.maskn(bits), detail.decimals);
             break;
         case LibSdbTypes.VariableType.Address:
-            v = "0x" + value.toString(16);
+            v = "0x" + value.maskn(160).toString(16, 40);
             break;
         case LibSdbTypes.VariableType.FixedByteArray:
-            const byteArrayStr = value.toString(16).match(/.{2}/g);
-            let byteArray: number[];
-            if (byteArrayStr !== null) {
-                byteArray = byteArrayStr.map((val, idx) => {
-                    return parseInt(val, 16);
-                });
-            }
-            else {
-                byteArray = [];
-            }
-            v = JSON.stringify(byteArray);
+            // the first storageLength bytes of the word
+            v = "0x" + value.maskn(256).toString(16, 64).substr(0, detail.storageLength * 2);
             break;
         case LibSdbTypes.VariableType.Enum:
             if (detail instanceof LibSdbTypes.EnumDetail) {
                 // really should be the case all the time
-                const index = Math.floor(value.toNumber());
+                const index = Math.floor(value.maskn(bits).toNumber());
                 if (index < detail.definition.values.length) {
                     v = detail.definition.values[index];
                 }
@@ -46,7 +78,8 @@ export function decode(detail: LibSdbTypes.ValueDetail | LibSdbTypes.EnumDetail,
             }
             break;
         case LibSdbTypes.VariableType.Function:
-            // TODO:
+            // internal function pointers take up 8 bytes, external functions 24
+            v = detail.storageLength > 8 ? decodeExternalFunction(value) : decodeInternalFunction(value, address);
             break;
         case LibSdbTypes.VariableType.None:
         default:
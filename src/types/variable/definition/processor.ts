@@ -39,7 +39,11 @@ export class VariableProcessor {
                 isReferenceType = isReferenceType || varType.startsWith("mapping"); // mapping
                 isReferenceType = isReferenceType || varType.includes("[") && varType.includes("]"); // array
                 if (isReferenceType) {
-                    if (parentName === "ParameterList") {
+                    if (varType.endsWith(" calldata")) {
+                        // arguments of external functions are read straight out of the transaction input
+                        this._variable.location = VariableLocation.CallData;
+                    }
+                    else if (parentName === "ParameterList") {
                         this._variable.location = VariableLocation.Memory;
                     }
                     else {
@@ -57,6 +61,9 @@ export class VariableProcessor {
             else if (storageLocation === "memory") {
                 this._variable.location = VariableLocation.Memory;
             }
+            else if (storageLocation === "calldata") {
+                this._variable.location = VariableLocation.CallData;
+            }
             else {
                 // default to stack i guess, probably shouldnt get here though
                 this._variable.location = VariableLocation.Stack;
@@ -73,16 +80,23 @@ export class VariableProcessor {
         let remainderTypeName: string = "";
         let result: LibSdbTypes.VariableDetailType;
 
-        // TODO: FixedPoint when its implemented in solidity
         // TODO: Enum
-        // TODO: Function
 
         if ((match = /^bool/g.exec(typeName)) !== null) {
             remainderTypeName = typeName.substr(match.index + match[0].length);
             // last leaf is a boolean
             leaf = new ValueDetail(this._variable);
             leaf.type = VariableType.Boolean;
-            leaf.storageLength = 32; // TODO: is this right?
+            leaf.storageLength = 1;
+        }
+        else if ((match = /^(u?)fixed(?:([0-9]+)x([0-9]+))?/g.exec(typeName)) !== null) {
+            remainderTypeName = typeName.substr(match.index + match[0].length);
+            // last leaf is a fixed point number
+            // group 1 is the u of unsigned, group 2 the number of bits, and group 3 the number of decimals (fixed is fixed128x18)
+            leaf = new ValueDetail(this._variable);
+            leaf.type = match[1] === "u" ? VariableType.UnsignedFixedPoint : VariableType.FixedPoint;
+            leaf.storageLength = Math.ceil((match[2] !== undefined ? parseInt(match[2]) : 128) / 8);
+            leaf.decimals = match[3] !== undefined ? parseInt(match[3]) : 18;
         }
         else if ((match = /^uint/g.exec(typeName)) !== null) {
             remainderTypeName = typeName.substr(match.index + match[0].length);
@@ -137,6 +151,7 @@ export class VariableProcessor {
             remainderTypeName = typeName.substr(match.index + match[0].length);
             // last leaf is a dynamic bytes array (special array)
             leaf = new ArrayDetail(this._variable);
+            leaf.type = VariableType.ByteArray;
             this._runtime._variableReferenceIds.set(leaf.id, leaf);
 
             // A `bytes` is similar to `byte[]`, but it is packed tightly in calldata.
@@ -175,6 +190,7 @@ export class VariableProcessor {
             remainderTypeName = typeName.substr(match.index + match[0].length);
             // last leaf is a string (special array)
             leaf = new ArrayDetail(this._variable);
+            leaf.type = VariableType.String;
             this._runtime._variableReferenceIds.set(leaf.id, leaf);
 
             // `string` is equal to `bytes` but does not allow length or index access (for now).
@@ -275,11 +291,20 @@ export class VariableProcessor {
             }
             leaf.value = this.processDetails(match[2], false);
         }
+        else if ((match = /^function \([^)]*\)((?: (?!returns\b)[a-z]+)*)(?: returns \([^)]*\))?/g.exec(typeName)) !== null) {
+            remainderTypeName = typeName.substr(match.index + match[0].length);
+            // last leaf is a function, group 1 are the modifiers of the function type
+            leaf = new ValueDetail(this._variable);
+            leaf.type = VariableType.Function;
+            // internal functions are a pc, external functions are an address and selector
+            leaf.storageLength = / external\b/.test(match[1]) ? 24 : 8;
+        }
         else if ((match = /^contract ([^\r\n\t\f\v \[]+)/g.exec(typeName)) !== null) {
             remainderTypeName = typeName.substr(match.index + match[0].length);
 
             leaf = new ContractDetail(this._variable);
             leaf.name = match[1];
+            this._runtime._variableReferenceIds.set(leaf.id, leaf);
         }
         else if ((match = /^enum ([\S]+)\.([^\r\n\t\f\v \[]+)/g.exec(typeName)) !== null || (match = /^enum/g.exec(typeName)) !== null) {
             remainderTypeName = typeName.substr(match.index + match[0].length);
@@ -321,8 +346,8 @@ export class VariableProcessor {
                     let array = new ArrayDetail(this._variable);
                     this._runtime._variableReferenceIds.set(array.id, array);
 
-                    array.isDynamic = arrayMatch.length === 0;
-                    array.length = arrayMatch.length > 0 ? parseInt(arrayMatch[1]) : 0;
+                    array.isDynamic = arrayMatch[1].length === 0;
+                    array.length = arrayMatch[1].length > 0 ? parseInt(arrayMatch[1]) : 0;
 
                     const index2 = arrayMatch.index + arrayMatch[0].length;
                     const remainder = remainderTypeName.substr(index2);
@@ -353,7 +378,7 @@ export class VariableProcessor {
                     remainderTypeName = remainderTypeName.substr(arrayMatch.index + arrayMatch[0].length);
                     arrays.push(array);
                 }
-            } while (remainderTypeName !== "")
+            } while (arrayMatch !== null && remainderTypeName !== "")
 
             if (arrays.length > 0) {
                 for (let i = 0; i < arrays.length; i++) {
@@ -386,6 +411,7 @@ export class VariableProcessor {
                 // we are processing the root, the entire tree of details have been added at this point
                 //   let's determine the position for everything
 
+                this.applyLocations(result, this._variable.location);
                 this.applyPositions(result);
             }
 
@@ -397,6 +423,36 @@ export class VariableProcessor {
         }
     }
 
+    // nested types without a location in their type name (i.e. the `string` of `string[] memory`) are where their parent is
+    private applyLocations(detail: LibSdbTypes.VariableDetailType, location: VariableLocation): void {
+        if (detail instanceof ArrayDetail) {
+            if (detail.location === undefined) {
+                detail.location = location;
+            }
+            this.applyLocations(detail.memberType, detail.location);
+            for (let i = 0; i < detail.members.length; i++) {
+                this.applyLocations(detail.members[i], detail.location);
+            }
+        }
+        else if (detail instanceof StructDetail) {
+            if (detail.location === undefined) {
+                detail.location = location;
+            }
+            for (let i = 0; i < detail.members.length; i++) {
+                if (detail.members[i].detail !== null) {
+                    this.applyLocations(detail.members[i].detail!, detail.location);
+                }
+            }
+        }
+        else if (detail instanceof MappingDetail) {
+            // mappings only live in storage
+            this.applyLocations(detail.key, VariableLocation.Storage);
+            if (detail.value !== null) {
+                this.applyLocations(detail.value, VariableLocation.Storage);
+            }
+        }
+    }
+
     private applyMemoryPositions(detail: LibSdbTypes.VariableDetailType, offsetPosition: number = 0): void {
         // offet is only used for storage
         detail.offset = null;
@@ -529,6 +585,28 @@ export class VariableProcessor {
         }
     }
 
+    // details created after processing (i.e. mapping values and dynamic array elements) need to be registered to be expanded
+    public registerReferences(detail: LibSdbTypes.VariableDetailType): void {
+        if (detail instanceof ValueDetail) {
+            return;
+        }
+
+        this._runtime._variableReferenceIds.set(detail.id, detail);
+
+        if (detail instanceof ArrayDetail) {
+            for (let i = 0; i < detail.members.length; i++) {
+                this.registerReferences(detail.members[i]);
+            }
+        }
+        else if (detail instanceof StructDetail) {
+            for (let i = 0; i < detail.members.length; i++) {
+                if (detail.members[i].detail !== null) {
+                    this.registerReferences(detail.members[i].detail!);
+                }
+            }
+        }
+    }
+
     public applyPositions(detail: LibSdbTypes.VariableDetailType): void {
         switch (detail.variable.location) {
             case (VariableLocation.Stack): {
@@ -1,9 +1,14 @@
-import { Variable, DecodedVariable, VariableLocation } from "../variable";
+import { Variable, DecodedVariable, VariableLocation, VariableType } from "../variable";
 import { ValueDetail } from "./value";
 import { BN } from "bn.js";
 import { LibSdbInterface } from "../../../interface";
 import { LibSdbTypes } from "../../types";
 import { VariableProcessor } from "../definition/processor";
+import { keccak256 } from "../../../utils/storage";
+import { readWord, readMemory } from "../../../utils/abi";
+import { LibSdbConstants } from "../../../utils/constants";
+import { callData, argumentOffset } from "../decode/calldata";
+import { applyChildPosition, callDataHeadSize, dataPointer } from "../decode/reference";
 
 export class ArrayDetail {
     variable: Variable;
@@ -13,10 +18,14 @@ export class ArrayDetail {
     offset: number | null; // used for storage locations
     id: number;
     isDynamic: boolean;
+    type: VariableType; // ByteArray for `bytes`, String for `string`, otherwise None
     memberType: LibSdbTypes.VariableDetailType;
     length: number;
     members: (ArrayDetail["memberType"])[];
+    elements: Map<number, ArrayDetail["memberType"]>; // elements of dynamic arrays, created as they're decoded
+    elementsPosition: number | null; // memory/calldata location the elements were created for
     memoryLength: number;
+    absolutePosition: number | null; // memory/calldata location when nested in another array or struct, set by the parent when decoding
     // From spec: For memory arrays, it cannot be a mapping and has to be an ABI
     //   type if it is an argument of a publicly-visible function.
 
@@ -24,7 +33,12 @@ export class ArrayDetail {
         this.variable = variable;
         this.position = new BN(0);
         this.id = Variable.nextId++;
+        this.type = VariableType.None;
         this.members = [];
+        this.elements = new Map<number, ArrayDetail["memberType"]>();
+        this.elementsPosition = null;
+        this.memoryLength = 32; // memory arrays are referenced through a pointer
+        this.absolutePosition = null;
     }
 
     getStorageUsed(): number {
@@ -75,6 +89,8 @@ export class ArrayDetail {
 
         clone.isDynamic = this.isDynamic;
 
+        clone.type = this.type;
+
         clone.memberType = this.memberType.clone();
 
         clone.length = this.length;
@@ -85,6 +101,8 @@ export class ArrayDetail {
 
         clone.memoryLength = this.memoryLength;
 
+        clone.absolutePosition = this.absolutePosition;
+
         return clone;
     }
 
@@ -95,24 +113,231 @@ export class ArrayDetail {
         }
     }
 
-    async decodeChildren(stack: BN[], memory: (number | null)[], _interface: LibSdbInterface, address: string): Promise<DecodedVariable[]> {
-        let decodedVariables: DecodedVariable[] = [];
+    storageElement(index: number): ArrayDetail["memberType"] | null {
+        if (!this.isDynamic) {
+            return index >= 0 && index < this.members.length ? this.members[index] : null;
+        }
 
-        decodedVariables.push(<DecodedVariable> {
-            name: "length",
-            type: "number",
-            variablesReference: 0,
-            value: this.members.length.toString(),
-            result: this.members.length.toString()
-        });
+        if (this.elements.has(index)) {
+            return this.elements.get(index)!;
+        }
 
+        // the data of dynamic arrays starts at keccak256(p), elements smaller than a slot are packed together
+        const dataStart = keccak256(this.position.toArrayLike(Buffer, "be", 32));
+        const elementSize = this.memberType.getStorageUsed();
+        let processor: VariableProcessor;
+        if (elementSize < 32) {
+            const elementsPerSlot = Math.floor(32 / elementSize);
+            processor = new VariableProcessor(this.variable, dataStart.addn(Math.floor(index / elementsPerSlot)), (index % elementsPerSlot) * elementSize);
+        }
+        else {
+            processor = new VariableProcessor(this.variable, dataStart.add(new BN(index).muln(Math.ceil(elementSize / 32))), 0);
+        }
+
+        let element = this.memberType.clone();
+        processor.applyStoragePositions(element);
+        processor.registerReferences(element);
+        this.elements.set(index, element);
+
+        return element;
+    }
+
+    private updatePointer(stack: BN[]): void {
         if (this.isPointer && this.variable.position && this.variable.position < stack.length) {
-            this.position = stack[this.variable.position].clone();
-            this.assignMemberPositions();
+            const position = stack[this.variable.position];
+            if (!position.eq(this.position)) {
+                this.position = position.clone();
+                this.elements.clear();
+                this.assignMemberPositions();
+            }
         }
+    }
 
-        for (let i = 0; i < this.members.length; i++) {
-            let decodedVariable = await this.members[i].decode(stack, memory, _interface, address);
+    private isData(): boolean {
+        return this.location === VariableLocation.Memory || this.location === VariableLocation.CallData;
+    }
+
+    // finds where the array starts in memory/calldata, roots are found through the stack or the function's ABI
+    //   the length is null when the array doesn't fit in the data (e.g. an uninitialized stack slot)
+    private async dataPosition(stack: BN[], memory: (number | null)[], _interface: LibSdbInterface, address: string): Promise<{ position: number, length: number | null, data: Buffer | (number | null)[] } | null> {
+        const isRoot = this.variable.detail === this;
+        let data: Buffer | (number | null)[] = memory;
+        let position: number | null = this.absolutePosition;
+
+        if (this.location === VariableLocation.CallData) {
+            data = await callData(_interface);
+            if (isRoot) {
+                position = argumentOffset(this.variable, address, data);
+            }
+        }
+        else if (isRoot) {
+            if (this.variable.position === null || this.variable.position >= stack.length) {
+                return null;
+            }
+            position = dataPointer(stack[this.variable.position], memory.length);
+            if (position === null) {
+                return { position: 0, length: null, data: data };
+            }
+        }
+
+        if (position === null) {
+            return null;
+        }
+
+        const length = this.dataLength(position, data);
+        if (length === null) {
+            return { position: position, length: null, data: data };
+        }
+
+        if (position !== this.elementsPosition) {
+            // elements we created for the prior location are stale
+            this.elementsPosition = position;
+            this.elements.clear();
+        }
+
+        return { position: position, length: length, data: data };
+    }
+
+    // dynamic arrays, `bytes`, and `string` start with their length, null if the elements don't fit in the data
+    private dataLength(position: number, data: Buffer | (number | null)[]): number | null {
+        const start = this.isDynamic ? position + 32 : position;
+        if (start > data.length) {
+            return null;
+        }
+
+        const length = this.isDynamic ? readWord(data, position) : new BN(this.length);
+        let elementSize = 32;
+        if (this.isByteArray()) {
+            elementSize = 1;
+        }
+        else if (this.location === VariableLocation.CallData) {
+            elementSize = callDataHeadSize(this.memberType);
+        }
+
+        if (length.bitLength() > 32 || length.toNumber() * elementSize > data.length - start) {
+            return null;
+        }
+
+        return length.toNumber();
+    }
+
+    private dataElement(index: number, position: number, data: Buffer | (number | null)[]): ArrayDetail["memberType"] | null {
+        let element: ArrayDetail["memberType"];
+        if (!this.isDynamic) {
+            if (index >= this.members.length) {
+                return null;
+            }
+            element = this.members[index];
+        }
+        else if (this.elements.has(index)) {
+            element = this.elements.get(index)!;
+        }
+        else {
+            element = this.memberType.clone();
+            new VariableProcessor(this.variable, new BN(0), 0).registerReferences(element);
+            this.elements.set(index, element);
+        }
+
+        const start = this.isDynamic ? position + 32 : position;
+        const slot = this.location === VariableLocation.CallData ? start + index * callDataHeadSize(this.memberType) : start + index * 32;
+        if (!applyChildPosition(element, this.location, slot, start, data)) {
+            return null;
+        }
+
+        return element;
+    }
+
+    private isStorageDynamic(): boolean {
+        return this.location === VariableLocation.Storage && this.isDynamic;
+    }
+
+    private isByteArray(): boolean {
+        return this.type === VariableType.ByteArray || this.type === VariableType.String;
+    }
+
+    private async readSlot(slot: BN, _interface: LibSdbInterface, address: string): Promise<Buffer> {
+        const content = await _interface.requestStorage(address, slot.toBuffer("be", 32));
+        const value: Buffer = content.value;
+        let word = Buffer.alloc(32);
+        value.copy(word, 32 - Math.min(value.length, 32), Math.max(value.length - 32, 0));
+
+        return word;
+    }
+
+    // dynamic arrays keep their length in their slot p
+    async storageLength(_interface: LibSdbInterface, address: string): Promise<number> {
+        const word = await this.readSlot(this.position, _interface, address);
+
+        return new BN(word).toNumber();
+    }
+
+    // `bytes` and `string` shorter than 32 bytes are stored in p along with length * 2 in the lowest byte,
+    //   longer ones store length * 2 + 1 in p and the data starting at keccak256(p)
+    async storageBytes(_interface: LibSdbInterface, address: string): Promise<{ data: Buffer, length: number }> {
+        const word = await this.readSlot(this.position, _interface, address);
+
+        if (word[31] % 2 === 0) {
+            const length = Math.min(word[31] / 2, 31);
+            return { data: word.slice(0, length), length: length };
+        }
+
+        const length = new BN(word).subn(1).divn(2).toNumber();
+        const readLength = Math.min(length, LibSdbConstants.MaxStorageBytes);
+        const dataStart = keccak256(this.position.toArrayLike(Buffer, "be", 32));
+        let slots: Buffer[] = [];
+        for (let i = 0; i * 32 < readLength; i++) {
+            slots.push(await this.readSlot(dataStart.addn(i), _interface, address));
+        }
+
+        return { data: Buffer.concat(slots).slice(0, readLength), length: length };
+    }
+
+    async decodeChildren(stack: BN[], memory: (number | null)[], _interface: LibSdbInterface, address: string, start: number = 0, count?: number): Promise<DecodedVariable[]> {
+        let decodedVariables: DecodedVariable[] = [];
+
+        this.updatePointer(stack);
+
+        if ((this.isStorageDynamic() || this.isData()) && this.isByteArray()) {
+            // the value already shows the contents
+            return decodedVariables;
+        }
+
+        let dataPosition: { position: number, length: number | null, data: Buffer | (number | null)[] } | null = null;
+        let length = this.members.length;
+        if (this.isData()) {
+            dataPosition = await this.dataPosition(stack, memory, _interface, address);
+            length = dataPosition === null || dataPosition.length === null ? 0 : dataPosition.length;
+        }
+        else if (this.isStorageDynamic()) {
+            length = await this.storageLength(_interface, address);
+        }
+
+        if (count === undefined) {
+            // not a paged request, show the length and the first page of elements
+            decodedVariables.push(<DecodedVariable> {
+                name: "length",
+                type: "number",
+                variablesReference: 0,
+                value: length.toString(),
+                result: length.toString()
+            });
+            count = LibSdbConstants.ArrayPageSize;
+        }
+
+        const end = Math.min(length, start + count);
+        for (let i = start; i < end; i++) {
+            let element: ArrayDetail["memberType"] | null;
+            if (dataPosition !== null) {
+                element = this.dataElement(i, dataPosition.position, dataPosition.data);
+            }
+            else {
+                element = this.isStorageDynamic() ? this.storageElement(i) : this.members[i];
+            }
+            if (element === null) {
+                continue;
+            }
+
+            let decodedVariable = await element.decode(stack, memory, _interface, address);
             decodedVariable.name = i.toString();
             decodedVariables.push(decodedVariable);
         }
@@ -120,6 +345,20 @@ export class ArrayDetail {
         return decodedVariables;
     }
 
+    private decodeBytes(decodedVariable: DecodedVariable, bytes: Buffer, length: number): void {
+        const truncated = bytes.length < length ? "..." : "";
+        if (this.type === VariableType.String) {
+            decodedVariable.type = "string";
+            decodedVariable.value = JSON.stringify(bytes.toString("utf8")) + truncated;
+        }
+        else {
+            decodedVariable.type = "bytes";
+            decodedVariable.value = "0x" + bytes.toString("hex") + truncated;
+        }
+        decodedVariable.result = decodedVariable.value;
+        decodedVariable.variablesReference = 0;
+    }
+
     async decode(stack: BN[], memory: (number | null)[], _interface: LibSdbInterface, address: string): Promise<DecodedVariable> {
         let decodedVariable = <DecodedVariable> {
             name: this.variable.name,
@@ -129,6 +368,48 @@ export class ArrayDetail {
             result: ""
         };
 
+        if (this.isData()) {
+            const dataPosition = await this.dataPosition(stack, memory, _interface, address);
+            if (dataPosition === null) {
+                decodedVariable.value = "(unknown location)";
+                decodedVariable.variablesReference = 0;
+            }
+            else if (dataPosition.length === null) {
+                decodedVariable.value = "(invalid location)";
+                decodedVariable.variablesReference = 0;
+            }
+            else if (this.isByteArray()) {
+                const length = dataPosition.length;
+                const readLength = Math.min(length, LibSdbConstants.MaxStorageBytes);
+                let bytes: Buffer;
+                if (dataPosition.data instanceof Buffer) {
+                    bytes = dataPosition.data.slice(dataPosition.position + 32, dataPosition.position + 32 + readLength);
+                }
+                else {
+                    bytes = readMemory(dataPosition.data, dataPosition.position + 32, readLength);
+                }
+                this.decodeBytes(decodedVariable, bytes, length);
+            }
+            else if (this.isDynamic) {
+                const length = dataPosition.length;
+                decodedVariable.value = "Array(" + length + ")";
+                decodedVariable.indexedVariables = length;
+            }
+        }
+        else if (this.isStorageDynamic()) {
+            this.updatePointer(stack);
+
+            if (this.isByteArray()) {
+                const bytes = await this.storageBytes(_interface, address);
+                this.decodeBytes(decodedVariable, bytes.data, bytes.length);
+            }
+            else {
+                const length = await this.storageLength(_interface, address);
+                decodedVariable.value = "Array(" + length + ")";
+                decodedVariable.indexedVariables = length;
+            }
+        }
+
         return decodedVariable;
     }
 }
\ No newline at end of file
@@ -1,6 +1,9 @@
-import { Variable, DecodedVariable } from "../variable";
+import { Variable, DecodedVariable, VariableType } from "../variable";
+import { ValueDetail } from "./value";
 import { BN } from "bn.js";
 import { LibSdbInterface } from "../../../interface";
+import { LibSdbRuntime } from "../../../runtime";
+import { VariableProcessor } from "../definition/processor";
 
 export class ContractDetail {
     variable: Variable;
@@ -10,6 +13,11 @@ export class ContractDetail {
     name: string;
     storageLength: number;
     memoryLength: number;
+    absolutePosition: number | null; // memory/calldata location when nested in another array or struct, set by the parent when decoding
+    targetAddress: string | null; // address the variable held when it was last decoded
+    stateVariables: Variable[]; // state variables of the contract at `targetAddress`
+    targets: Map<string, Variable[]>; // state variables of every address the variable held, so their references stay the same
+    addressDetail: ValueDetail; // decodes the address the variable holds
 
     constructor(variable: Variable) {
         this.variable = variable;
@@ -17,6 +25,12 @@ export class ContractDetail {
         this.id = Variable.nextId++;
         this.memoryLength = 32; // essentially an address
         this.storageLength = 20; // TODO: does it only take up a 20 byte address?
+        this.absolutePosition = null;
+        this.targetAddress = null;
+        this.stateVariables = [];
+        this.targets = new Map<string, Variable[]>();
+        this.addressDetail = new ValueDetail(variable);
+        this.addressDetail.type = VariableType.Address;
     }
 
     getStorageUsed(): number {
@@ -42,21 +56,80 @@ export class ContractDetail {
 
         clone.memoryLength = this.memoryLength;
 
+        clone.absolutePosition = this.absolutePosition;
+
         return clone;
     }
 
+    // the variable itself is just an address, decode it like one
+    async decodeAddress(stack: BN[], memory: (number | null)[], _interface: LibSdbInterface, address: string): Promise<string | null> {
+        let value = this.addressDetail;
+        value.position = this.position;
+        value.offset = this.offset;
+        value.storageLength = this.storageLength;
+        value.absolutePosition = this.absolutePosition;
+
+        const decodedValue = await value.decode(stack, memory, _interface, address);
+        if (!/^0x[0-9a-fA-F]+$/.test(decodedValue.value)) {
+            return null;
+        }
+
+        const targetAddress = new BN(decodedValue.value.substr(2), 16).toString(16, 40);
+        if (targetAddress !== this.targetAddress) {
+            this.targetAddress = targetAddress;
+
+            const contract = LibSdbRuntime.instance()._contractsByAddress.get(targetAddress);
+            if (contract === undefined) {
+                this.stateVariables = [];
+            }
+            else if (this.targets.has(targetAddress)) {
+                this.stateVariables = this.targets.get(targetAddress)!;
+            }
+            else {
+                // copies, so that the contract's own variables (and any other instance of it) aren't decoded against this address
+                this.stateVariables = [];
+                for (let i = 0; i < contract.stateVariables.length; i++) {
+                    const stateVariable = contract.stateVariables[i].clone();
+                    if (stateVariable.detail !== null) {
+                        new VariableProcessor(stateVariable, new BN(0), 0).registerReferences(stateVariable.detail);
+                    }
+                    this.stateVariables.push(stateVariable);
+                }
+                this.targets.set(targetAddress, this.stateVariables);
+            }
+        }
+
+        return targetAddress;
+    }
+
     async decodeChildren(stack: BN[], memory: (number | null)[], _interface: LibSdbInterface, address: string): Promise<DecodedVariable[]> {
         let decodedVariables: DecodedVariable[] = [];
 
+        const targetAddress = await this.decodeAddress(stack, memory, _interface, address);
+        if (targetAddress === null) {
+            return decodedVariables;
+        }
+
+        for (let i = 0; i < this.stateVariables.length; i++) {
+            const detail = this.stateVariables[i].detail;
+            if (detail !== null) {
+                // state variables are all in the target's storage, our stack and memory don't apply
+                decodedVariables.push(await detail.decode([], [], _interface, targetAddress));
+            }
+        }
+
         return decodedVariables;
     }
 
     async decode(stack: BN[], memory: (number | null)[], _interface: LibSdbInterface, address: string): Promise<DecodedVariable> {
+        const targetAddress = await this.decodeAddress(stack, memory, _interface, address);
+        const isKnown = targetAddress !== null && LibSdbRuntime.instance()._contractsByAddress.has(targetAddress);
+
         let decodedVariable = <DecodedVariable>{
             name: this.variable.name,
             type: this.name,
-            variablesReference: 0, //this.id, // TODO: this is 0 temporarily until we can implement children
-            value: "Contract" + (this.name ? (" " + this.name) : ""),
+            variablesReference: isKnown ? this.id : 0,
+            value: "Contract" + (this.name ? (" " + this.name) : "") + (targetAddress !== null ? (" (0x" + targetAddress + ")") : ""),
             result: ""
         };
 
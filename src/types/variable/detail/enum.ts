@@ -5,7 +5,8 @@ import { LibSdbInterface } from "../../../interface";
 import { BN } from "bn.js";
 
 import { decode as decodeStack } from "../decode/stack";
-import { decode as decodeMemory } from "../decode/memory";
+import { decode as decodeMemory, decodeAt as decodeMemoryAt } from "../decode/memory";
+import { decode as decodeCallData, callData } from "../decode/calldata";
 import { decode as decodeStorage } from "../decode/storage";
 
 export class EnumDetail extends ValueDetail {
@@ -22,7 +23,9 @@ export class EnumDetail extends ValueDetail {
     }
 
     clone(variable: Variable = this.variable): EnumDetail {
-        let clone = new EnumDetail(this.variable);
+        let clone = new EnumDetail(variable);
+
+        clone.id = this.id;
 
         clone.position = this.position;
 
@@ -34,6 +37,8 @@ export class EnumDetail extends ValueDetail {
 
         clone.memoryLength = this.memoryLength;
 
+        clone.absolutePosition = this.absolutePosition;
+
         clone.definition = this.definition.clone();
 
         return clone;
@@ -44,10 +49,20 @@ export class EnumDetail extends ValueDetail {
 
         switch (this.variable.location) {
             case VariableLocation.Stack:
-                v = decodeStack((this.variable.position || 0) + this.position.toNumber(), this, stack);
+                v = decodeStack((this.variable.position || 0) + this.position.toNumber(), this, stack, address);
                 break;
             case VariableLocation.Memory:
-                v = decodeMemory((this.variable.position || 0), this.position.toNumber(), this, stack, memory);
+                if (this.absolutePosition !== null) {
+                    v = decodeMemoryAt(this.absolutePosition, this, memory, address);
+                }
+                else {
+                    v = decodeMemory((this.variable.position || 0), this.position.toNumber(), this, stack, memory, address);
+                }
+                break;
+            case VariableLocation.CallData:
+                if (this.absolutePosition !== null) {
+                    v = decodeCallData(this.absolutePosition, this, await callData(_interface), address);
+                }
                 break;
             case VariableLocation.Storage:
                 v = await decodeStorage(this.position, this.offset || 0, this.storageLength, this, _interface, address);
@@ -57,6 +72,7 @@ export class EnumDetail extends ValueDetail {
         }
 
         let decodedVariable = <DecodedVariable>{
+            id: this.id,
             name: this.variable.name,
             type: VariableTypeToString(this.type),
             variablesReference: 0,
@@ -4,6 +4,9 @@ import { ArrayDetail } from "./array";
 import { BN } from "bn.js";
 import { LibSdbInterface } from "../../../interface";
 import { LibSdbTypes } from "../../types";
+import { LibSdbRuntime } from "../../../runtime";
+import { VariableProcessor } from "../definition/processor";
+import { encodeMappingKey, decodeMappingKey, mappingValuePosition } from "../../../utils/storage";
 
 export class MappingDetail {
     variable: Variable;
@@ -13,12 +16,16 @@ export class MappingDetail {
     key: ValueDetail | ArrayDetail; // cant be dynamic array or contract
     value: LibSdbTypes.VariableDetailType | null
     memoryLength: number;
+    keys: string[]; // keys the user asked to inspect, the storage can't tell us which keys exist
+    entries: Map<string, LibSdbTypes.VariableDetailType>; // encoded key (hex) -> value detail at that key's slot
     // Mappings are only allowed for state variables (or as storage reference types in internal functions)
 
     constructor(variable: Variable) {
         this.variable = variable;
         this.position = new BN(0);
         this.id = Variable.nextId++;
+        this.keys = [];
+        this.entries = new Map<string, LibSdbTypes.VariableDetailType>();
     }
 
     getStorageUsed(): number {
@@ -58,15 +65,92 @@ export class MappingDetail {
         return clone;
     }
 
+    addKey(key: string): boolean {
+        const encodedKey = encodeMappingKey(this.key, key);
+        if (encodedKey === null) {
+            return false;
+        }
+
+        if (!this.keys.some(k => encodedKey.equals(encodeMappingKey(this.key, k)!))) {
+            this.keys.push(key);
+        }
+
+        return true;
+    }
+
+    // the value of key k lives at keccak256(k . p), where p is the mapping's slot
+    entry(key: string): LibSdbTypes.VariableDetailType | null {
+        const encodedKey = encodeMappingKey(this.key, key);
+        if (encodedKey === null || this.value === null) {
+            return null;
+        }
+
+        const hexKey = encodedKey.toString("hex");
+        if (!this.entries.has(hexKey)) {
+            let value = this.value.clone();
+            const processor = new VariableProcessor(this.variable, mappingValuePosition(encodedKey, this.position), 0);
+            processor.applyStoragePositions(value);
+            processor.registerReferences(value);
+            this.entries.set(hexKey, value);
+        }
+
+        return this.entries.get(hexKey)!;
+    }
+
+    updatePointer(stack: BN[]): void {
+        if (!this.variable.isStateVariable && this.variable.detail === this && this.variable.position !== null && this.variable.position < stack.length) {
+            // storage pointer to a mapping, the slot is on the stack
+            const position = stack[this.variable.position];
+            if (!position.eq(this.position)) {
+                this.position = position.clone();
+                this.entries.clear();
+            }
+        }
+    }
+
     async decodeChildren(stack: BN[], memory: (number | null)[], _interface: LibSdbInterface, address: string): Promise<DecodedVariable[]> {
-        return [];
+        let decodedVariables: DecodedVariable[] = [];
+
+        this.updatePointer(stack);
+
+        // keys this transaction hashed with our slot, followed by the ones the user added
+        let keys: string[] = [];
+        let encodedKeys: string[] = [];
+        const recordedKeys = LibSdbRuntime.instance()._preimages.keys(address, this.position);
+        for (let i = 0; i < recordedKeys.length; i++) {
+            const key = decodeMappingKey(this.key, recordedKeys[i]);
+            if (key !== null) {
+                keys.push(key);
+                encodedKeys.push(recordedKeys[i].toString("hex"));
+            }
+        }
+        for (let i = 0; i < this.keys.length; i++) {
+            const encodedKey = encodeMappingKey(this.key, this.keys[i]);
+            if (encodedKey !== null && encodedKeys.indexOf(encodedKey.toString("hex")) === -1) {
+                keys.push(this.keys[i]);
+                encodedKeys.push(encodedKey.toString("hex"));
+            }
+        }
+
+        for (let i = 0; i < keys.length; i++) {
+            const value = this.entry(keys[i]);
+            if (value === null) {
+                continue;
+            }
+
+            let decodedVariable = await value.decode(stack, memory, _interface, address);
+            decodedVariable.name = "[" + keys[i] + "]";
+            decodedVariables.push(decodedVariable);
+        }
+
+        return decodedVariables;
     }
 
     async decode(stack: BN[], memory: (number | null)[], _interface: LibSdbInterface, address: string): Promise<DecodedVariable> {
         let decodedVariable = <DecodedVariable> {
             name: this.variable.name,
             type: "mapping",
-            variablesReference: 0, // we can't decode children for mapping's, see https://bit.ly/2G29Oma for details
+            variablesReference: this.id, // only keys we've seen hashed or that were added with `addKey` show up, see https://bit.ly/2G29Oma for details
             value: this.variable.originalType,
             result: ""
         };
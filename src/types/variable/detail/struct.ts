@@ -4,6 +4,8 @@ import { BN } from "bn.js";
 import { LibSdbInterface } from "../../../interface";
 import { LibSdbTypes } from "../../types";
 import { VariableProcessor } from "../definition/processor";
+import { callData, argumentOffset } from "../decode/calldata";
+import { applyChildPosition, callDataHeadSize, dataPointer } from "../decode/reference";
 
 export class StructDetail {
     variable: Variable;
@@ -18,12 +20,15 @@ export class StructDetail {
         detail: (LibSdbTypes.VariableDetailType | null)
     }[];
     memoryLength: number;
+    absolutePosition: number | null; // memory/calldata location when nested in another array or struct, set by the parent when decoding
 
     constructor(variable: Variable) {
         this.variable = variable;
         this.position = new BN(0);
         this.id = Variable.nextId++;
         this.members = [];
+        this.memoryLength = 32; // memory structs are referenced through a pointer
+        this.absolutePosition = null;
     }
 
     getStorageUsed(): number {
@@ -76,6 +81,8 @@ export class StructDetail {
 
         clone.memoryLength = this.memoryLength;
 
+        clone.absolutePosition = this.absolutePosition;
+
         return clone;
     }
 
@@ -88,13 +95,59 @@ export class StructDetail {
         }
     }
 
+    // members of memory structs take up a word each (mappings are left out), calldata structs are ABI encoded tuples
+    //   returns the names of the members we couldn't locate, or null if we can't tell where the struct is
+    private async assignDataPositions(stack: BN[], memory: (number | null)[], _interface: LibSdbInterface, address: string): Promise<Set<string> | null> {
+        const isRoot = this.variable.detail === this;
+        let data: Buffer | (number | null)[] = memory;
+        let position: number | null = this.absolutePosition;
+
+        if (this.location === VariableLocation.CallData) {
+            data = await callData(_interface);
+            if (isRoot) {
+                position = argumentOffset(this.variable, address, data);
+            }
+        }
+        else if (isRoot) {
+            position = this.variable.position !== null && this.variable.position < stack.length ? dataPointer(stack[this.variable.position], memory.length) : null;
+        }
+
+        if (position === null) {
+            return null;
+        }
+
+        let invalidMembers = new Set<string>();
+        let slot = position;
+        for (let i = 0; i < this.members.length; i++) {
+            const detail = this.members[i].detail;
+            if (detail === null || detail instanceof LibSdbTypes.MappingDetail) {
+                continue;
+            }
+
+            if (slot + 32 > data.length || !applyChildPosition(detail, this.location, slot, position, data)) {
+                invalidMembers.add(this.members[i].name);
+            }
+            slot += this.location === VariableLocation.CallData ? callDataHeadSize(detail) : 32;
+        }
+
+        return invalidMembers;
+    }
+
     async decodeChildren(stack: BN[], memory: (number | null)[], _interface: LibSdbInterface, address: string): Promise<DecodedVariable[]> {
         let decodedVariables: DecodedVariable[] = [];
+        let invalidMembers = new Set<string>();
 
         if (this.isPointer && this.variable.position && this.variable.position < stack.length) {
             this.position = stack[this.variable.position].clone();
             this.assignMemberPositions();
         }
+        else if (this.location === VariableLocation.Memory || this.location === VariableLocation.CallData) {
+            const dataPositions = await this.assignDataPositions(stack, memory, _interface, address);
+            if (dataPositions === null) {
+                return decodedVariables;
+            }
+            invalidMembers = dataPositions;
+        }
 
         for (let i = 0; i < this.members.length; i++) {
             let decodedVariable: DecodedVariable;
@@ -106,6 +159,14 @@ export class StructDetail {
                     result: ""
                 };
             }
+            else if (invalidMembers.has(this.members[i].name)) {
+                decodedVariable = <DecodedVariable>{
+                    type: "",
+                    variablesReference: 0,
+                    value: "(invalid location)",
+                    result: ""
+                };
+            }
             else {
                 decodedVariable = await this.members[i].detail!.decode(stack, memory, _interface, address);
             }
@@ -3,21 +3,28 @@ import { LibSdbInterface } from "../../../interface";
 import { BN } from "bn.js";
 
 import { decode as decodeStack } from "../decode/stack";
-import { decode as decodeMemory } from "../decode/memory";
+import { decode as decodeMemory, decodeAt as decodeMemoryAt } from "../decode/memory";
+import { decode as decodeCallData, callData } from "../decode/calldata";
 import { decode as decodeStorage } from "../decode/storage";
 
 export class ValueDetail {
     variable: Variable;
+    id: number; // not a variable reference, identifies the value for per variable formats
     position: BN; // either the relative slot number or relative position in stack/memory
     offset: number | null; // used for storage locations
     type: VariableType;
     storageLength: number;
     memoryLength: number;
+    decimals: number; // number of decimal places of fixed point numbers
+    absolutePosition: number | null; // memory/calldata location of children of arrays and structs, set by the parent when decoding
 
     constructor(variable: Variable) {
         this.variable = variable;
+        this.id = Variable.nextId++;
         this.position = new BN(0);
         this.memoryLength = 32;
+        this.decimals = 0;
+        this.absolutePosition = null;
     }
 
     getStorageUsed(): number {
@@ -27,6 +34,9 @@ export class ValueDetail {
     clone(variable: Variable = this.variable): ValueDetail {
         let clone = new ValueDetail(variable);
 
+        // clones are the same value (e.g. every element of an array), formats tell them apart by name
+        clone.id = this.id;
+
         clone.position = this.position;
 
         clone.offset = this.offset;
@@ -37,6 +47,10 @@ export class ValueDetail {
 
         clone.memoryLength = this.memoryLength;
 
+        clone.decimals = this.decimals;
+
+        clone.absolutePosition = this.absolutePosition;
+
         return clone;
     }
 
@@ -45,10 +59,20 @@ export class ValueDetail {
 
         switch (this.variable.location) {
             case VariableLocation.Stack:
-                v = decodeStack((this.variable.position || 0) + this.position.toNumber(), this, stack);
+                v = decodeStack((this.variable.position || 0) + this.position.toNumber(), this, stack, address);
                 break;
             case VariableLocation.Memory:
-                v = decodeMemory((this.variable.position || 0), this.position.toNumber(), this, stack, memory);
+                if (this.absolutePosition !== null) {
+                    v = decodeMemoryAt(this.absolutePosition, this, memory, address);
+                }
+                else {
+                    v = decodeMemory((this.variable.position || 0), this.position.toNumber(), this, stack, memory, address);
+                }
+                break;
+            case VariableLocation.CallData:
+                if (this.absolutePosition !== null) {
+                    v = decodeCallData(this.absolutePosition, this, await callData(_interface), address);
+                }
                 break;
             case VariableLocation.Storage:
                 v = await decodeStorage(this.position, this.offset || 0, this.storageLength, this, _interface, address);
@@ -58,6 +82,7 @@ export class ValueDetail {
         }
 
         let decodedVariable = <DecodedVariable>{
+            id: this.id,
             name: this.variable.name,
             type: VariableTypeToString(this.type),
             variablesReference: 0,
@@ -65,6 +90,10 @@ export class ValueDetail {
             result: v
         };
 
+        if (this.type === VariableType.Integer || this.type === VariableType.UnsignedInteger) {
+            decodedVariable.bits = this.storageLength * 8;
+        }
+
         return decodedVariable;
     }
 }
\ No newline at end of file
@@ -18,6 +18,7 @@ export enum VariableType {
     UnsignedInteger,
     Integer,
     FixedPoint,
+    UnsignedFixedPoint,
     Address,
     FixedByteArray,
     Enum,
@@ -39,7 +40,9 @@ export function VariableTypeToString(type: VariableType): string {
         case VariableType.Integer:
             return "int";
         case VariableType.FixedPoint:
-            return "fixedpoint";
+            return "fixed";
+        case VariableType.UnsignedFixedPoint:
+            return "ufixed";
         case VariableType.Address:
             return "address";
         case VariableType.FixedByteArray:
@@ -62,6 +65,8 @@ export enum VariableRefType {
 
 export interface DecodedVariable extends DebugProtocol.Variable {
     result: string; // same as value
+    id?: number; // of the value's detail, set for value types so the client can give them their own format
+    bits?: number; // width of int and uint values
 }
 
 export type VariableReferenceMap = Map<number, LibSdbTypes.VariableDetailType>;
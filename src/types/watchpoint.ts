@@ -0,0 +1,29 @@
+import { BN } from "bn.js";
+
+export class Watchpoint {
+    id: number;
+    expression: string; // state variable path, i.e. `owner`, `config.fee`, or `balances[0x1234...]`
+    contractName: string;
+    slot: BN | null; // storage slot backing the expression, null if it could not be resolved
+    verified: boolean;
+
+    constructor() {
+        this.slot = null;
+    }
+
+    clone(): Watchpoint {
+        let clone = new Watchpoint();
+
+        clone.id = this.id;
+
+        clone.expression = this.expression;
+
+        clone.contractName = this.contractName;
+
+        clone.slot = this.slot === null ? null : this.slot.clone();
+
+        clone.verified = this.verified;
+
+        return clone;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,130 @@
+import { BN } from "bn.js";
+
+// selector of `Error(string)`, which solidity uses to encode revert/require reasons
+const errorSelector = "08c379a0";
+
+// an offset and length read from the stack or from the data itself, null unless both fit in `size` bytes of data
+export function dataRange(offset: BN, length: BN, size: number): { offset: number, length: number } | null {
+    if (offset.isNeg() || length.isNeg() || offset.bitLength() > 32 || length.bitLength() > 32) {
+        return null;
+    }
+
+    const start = offset.toNumber();
+    const count = length.toNumber();
+    if (start + count > size) {
+        return null;
+    }
+
+    return { offset: start, length: count };
+}
+
+export function readMemory(memory: (number | null)[], offset: number, length: number): Buffer {
+    let result = Buffer.alloc(length);
+
+    for (let i = 0; i < length; i++) {
+        const byte = memory[offset + i];
+        result[i] = byte === null || byte === undefined ? 0 : byte;
+    }
+
+    return result;
+}
+
+// the step is expected to be at the REVERT instruction, where the top of the stack is the
+//   memory offset of the return data and the next item is its length
+export function decodeRevertReason(stack: BN[], memory: (number | null)[]): string | null {
+    if (stack.length < 2) {
+        return null;
+    }
+
+    // anything that doesn't fit in memory isn't a reason we can read
+    const range = dataRange(stack[stack.length - 1], stack[stack.length - 2], memory.length);
+    if (range === null || range.length < 4 + 32 + 32) {
+        return null;
+    }
+
+    const data = readMemory(memory, range.offset, range.length);
+    if (data.slice(0, 4).toString("hex") !== errorSelector) {
+        return null;
+    }
+
+    const stringHead = dataRange(new BN(data.slice(4, 36)), new BN(32), data.length - 4);
+    if (stringHead === null) {
+        return null;
+    }
+
+    const stringStart = 4 + stringHead.offset + 32;
+    const stringLength = new BN(data.slice(stringStart - 32, stringStart));
+    const stringEnd = stringLength.bitLength() > 32 ? data.length : Math.min(stringStart + stringLength.toNumber(), data.length);
+
+    return data.slice(stringStart, stringEnd).toString("utf8");
+}
+
+export function readWord(data: Buffer | (number | null)[], offset: number): BN {
+    if (data instanceof Buffer) {
+        let word = Buffer.alloc(32);
+        data.copy(word, 0, Math.min(offset, data.length), Math.min(offset + 32, data.length));
+        return new BN(word);
+    }
+
+    return new BN(readMemory(data, offset, 32));
+}
+
+// `bytes`, `string`, `T[]`, and anything containing one of them are encoded in the tail
+export function abiTypeIsDynamic(type: string, components?: any[]): boolean {
+    if (type === "bytes" || type === "string" || type.endsWith("[]")) {
+        return true;
+    }
+
+    const arrayMatch = /^(.*)\[[0-9]+\]$/.exec(type);
+    if (arrayMatch !== null) {
+        return abiTypeIsDynamic(arrayMatch[1], components);
+    }
+
+    if (type === "tuple" && components !== undefined) {
+        return components.some((component) => abiTypeIsDynamic(component.type, component.components));
+    }
+
+    return false;
+}
+
+// number of bytes the type takes up in the head
+export function abiHeadSize(type: string, components?: any[]): number {
+    if (abiTypeIsDynamic(type, components)) {
+        return 32;
+    }
+
+    const arrayMatch = /^(.*)\[([0-9]+)\]$/.exec(type);
+    if (arrayMatch !== null) {
+        return parseInt(arrayMatch[2]) * abiHeadSize(arrayMatch[1], components);
+    }
+
+    if (type === "tuple" && components !== undefined) {
+        return components.reduce((size, component) => size + abiHeadSize(component.type, component.components), 0);
+    }
+
+    return 32;
+}
+
+// offset of the argument `name` of the function `functionName` within the calldata (including the selector)
+export function abiArgumentOffset(abi: any[], functionName: string, name: string, calldata: Buffer): number | null {
+    const definition = abi.find((entry) => entry.type === "function" && entry.name === functionName && entry.inputs.some((input) => input.name === name));
+    if (definition === undefined) {
+        return null;
+    }
+
+    let head = 4;
+    for (let i = 0; i < definition.inputs.length; i++) {
+        const input = definition.inputs[i];
+        if (input.name === name) {
+            if (abiTypeIsDynamic(input.type, input.components)) {
+                // offsets in the head are relative to the start of the arguments
+                const offset = dataRange(readWord(calldata, head), new BN(0), calldata.length - 4);
+                return offset === null ? null : 4 + offset.offset;
+            }
+            return head;
+        }
+        head += abiHeadSize(input.type, input.components);
+    }
+
+    return null;
+}
\ No newline at end of file
@@ -1,4 +1,7 @@
 export * from "./misc";
 export * from "./astWalker";
 export * from "./sourceMappingDecoder";
-export * from "./codeUtils";
\ No newline at end of file
+export * from "./codeUtils";
+export * from "./abi";
+export * from "./storage";
+export * from "./format";
\ No newline at end of file
@@ -16,9 +16,36 @@ export namespace LibSdbConstants {
             name: "Dev Variables",
             frame: 4
         },
+        devStack: { // expandable entries of the dev scope
+            name: "Stack",
+            frame: 5
+        },
+        devMemory: {
+            name: "Memory",
+            frame: 6
+        },
+        devStorage: {
+            name: "Storage",
+            frame: 7
+        },
         variableStart: { // NOTE: variableStart must have a frame number larger than other scopes in this type
             name: "unused",
-            frame: 5
+            frame: 8
         }
     }
+
+    // number of steps kept for reverse execution, the oldest steps are dropped first
+    export const MaxStepHistory: number = 10000;
+
+    // estimated bytes the kept steps may take up, see `HistoryEntry.size`
+    export const MaxStepHistorySize: number = 64 * 1024 * 1024;
+
+    // number of array elements decoded when the client doesn't ask for a specific range
+    export const ArrayPageSize: number = 100;
+
+    // longest `bytes`/`string` we'll read out of storage
+    export const MaxStorageBytes: number = 4096;
+
+    // longest mapping key recorded from hash inputs, longer `bytes`/`string` keys have to be added by the user
+    export const MaxPreimageKeyLength: number = 64;
 }
\ No newline at end of file
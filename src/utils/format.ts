@@ -0,0 +1,69 @@
+import { BN } from "bn.js";
+import { LibSdbTypes } from "../types/types";
+import { keccak256 } from "./storage";
+
+const unitDecimals = {
+    "wei": 0,
+    "gwei": 9,
+    "ether": 18
+};
+
+// exact decimal representation of value / 10^decimals, used for fixed point numbers and ether units
+export function shiftDecimals(value: BN, decimals: number): string {
+    let digits = value.abs().toString(10);
+    while (digits.length <= decimals) {
+        digits = "0" + digits;
+    }
+    const integerPart = digits.substr(0, digits.length - decimals);
+    const fractionalPart = digits.substr(digits.length - decimals).replace(/0+$/, "");
+
+    return (value.isNeg() ? "-" : "") + integerPart + (fractionalPart.length > 0 ? "." + fractionalPart : "");
+}
+
+// exact scientific notation, i.e. 1.5e+21
+function toScientific(value: BN): string {
+    const digits = value.abs().toString(10);
+    const mantissa = digits.substr(1).replace(/0+$/, "");
+
+    return (value.isNeg() ? "-" : "") + digits[0] + (mantissa.length > 0 ? "." + mantissa : "") + "e+" + (digits.length - 1);
+}
+
+export function toChecksumAddress(address: string): string {
+    address = address.replace(/^0x/, "").toLowerCase();
+    const hash = keccak256(Buffer.from(address, "ascii")).toString(16, 64);
+
+    let result = "0x";
+    for (let i = 0; i < address.length; i++) {
+        result += parseInt(hash[i], 16) >= 8 ? address[i].toUpperCase() : address[i];
+    }
+
+    return result;
+}
+
+// formats a decoded value given its type (as given by VariableTypeToString), values that can't be formatted are returned as is
+export function formatValue(type: string, value: string, format: LibSdbTypes.ValueFormat): string {
+    if (type === "address") {
+        return format.checksum && /^0x[0-9a-fA-F]{40}$/.test(value) ? toChecksumAddress(value) : value;
+    }
+
+    if ((type !== "uint" && type !== "int") || !/^-?[0-9]+$/.test(value)) {
+        return value;
+    }
+
+    const num = new BN(value, 10);
+
+    if (type === "uint" && format.unit !== undefined && format.unit !== "wei" && format.unit in unitDecimals) {
+        return shiftDecimals(num, unitDecimals[format.unit]) + " " + format.unit;
+    }
+
+    const notation = format.notation || (format.hex ? "hex" : "decimal");
+    switch (notation) {
+        case "hex":
+            return (num.isNeg() ? "-" : "") + "0x" + num.abs().toString(16);
+        case "scientific":
+            return toScientific(num);
+        case "decimal":
+        default:
+            return value;
+    }
+}
\ No newline at end of file
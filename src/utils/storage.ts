@@ -0,0 +1,145 @@
+import { LibSdbTypes } from "../types/types";
+import { BN } from "bn.js";
+
+const keccak256Hash = require("js-sha3").keccak256;
+
+export function keccak256(data: Buffer): BN {
+    return new BN(keccak256Hash(data), 16);
+}
+
+function parseInteger(key: string): BN | null {
+    key = key.trim();
+    const negative = key.startsWith("-");
+    if (negative) {
+        key = key.substr(1).trim();
+    }
+
+    if (!/^(0x[0-9a-fA-F]+|[0-9]+)$/.test(key)) {
+        return null;
+    }
+
+    let value = key.startsWith("0x") ? new BN(key.substr(2), 16) : new BN(key, 10);
+    if (negative) {
+        value = value.neg().toTwos(256);
+    }
+
+    return value;
+}
+
+// the contents of a quoted key, double quoted keys are read as JSON strings so they round trip with `decodeMappingKey`
+function stringLiteral(key: string): string | null {
+    key = key.trim();
+    if (/^"[\s\S]*"$/.test(key)) {
+        try {
+            const value = JSON.parse(key);
+            return typeof value === "string" ? value : null;
+        }
+        catch (e) {
+            return null;
+        }
+    }
+    else if (/^'[\s\S]*'$/.test(key) && key.length > 1) {
+        return key.slice(1, -1);
+    }
+
+    return null;
+}
+
+// encodes a user provided key the same way solidity does before hashing it with the mapping's slot;
+//   value types are padded to a 32 byte word while `bytes` and `string` keys are used as is
+export function encodeMappingKey(keyDetail: LibSdbTypes.ValueDetail | LibSdbTypes.ArrayDetail, key: string): Buffer | null {
+    const literal = stringLiteral(key);
+
+    if (keyDetail instanceof LibSdbTypes.ArrayDetail) {
+        if (literal !== null) {
+            return Buffer.from(literal, "utf8");
+        }
+        else if (keyDetail.type === LibSdbTypes.VariableType.String) {
+            // an unquoted string key is taken verbatim, whitespace included
+            return key.trim().startsWith("\"") ? null : Buffer.from(key, "utf8");
+        }
+
+        key = key.trim();
+        if (!/^(0x)?([0-9a-fA-F]{2})*$/.test(key)) {
+            return null;
+        }
+
+        return Buffer.from(key.replace(/^0x/, ""), "hex");
+    }
+
+    key = literal !== null ? literal.trim() : key.trim();
+
+    let word: BN | null;
+    switch (keyDetail.type) {
+        case LibSdbTypes.VariableType.Boolean:
+            word = key === "true" || key === "false" ? new BN(key === "true" ? 1 : 0) : null;
+            break;
+        case LibSdbTypes.VariableType.Address:
+        case LibSdbTypes.VariableType.UnsignedInteger:
+        case LibSdbTypes.VariableType.Integer:
+            word = parseInteger(key);
+            break;
+        case LibSdbTypes.VariableType.FixedByteArray:
+            // bytesN are left aligned within the word
+            if (!/^(0x)?([0-9a-fA-F]{2})*$/.test(key)) {
+                return null;
+            }
+            const bytes = Buffer.from(key.replace(/^0x/, ""), "hex");
+            let padded = Buffer.alloc(32);
+            bytes.copy(padded, 0, 0, Math.min(bytes.length, 32));
+            return padded;
+        case LibSdbTypes.VariableType.Enum:
+            let index = -1;
+            if (keyDetail instanceof LibSdbTypes.EnumDetail && keyDetail.definition) {
+                const name = key.substr(key.lastIndexOf(".") + 1);
+                index = keyDetail.definition.values.indexOf(name);
+            }
+            word = index >= 0 ? new BN(index) : parseInteger(key);
+            break;
+        default:
+            return null;
+    }
+
+    return word === null ? null : word.toArrayLike(Buffer, "be", 32);
+}
+
+// the inverse of `encodeMappingKey`, gives a key that `encodeMappingKey` turns back into `encoded`
+export function decodeMappingKey(keyDetail: LibSdbTypes.ValueDetail | LibSdbTypes.ArrayDetail, encoded: Buffer): string | null {
+    if (keyDetail instanceof LibSdbTypes.ArrayDetail) {
+        if (keyDetail.type === LibSdbTypes.VariableType.String) {
+            return JSON.stringify(encoded.toString("utf8"));
+        }
+        else {
+            return "0x" + encoded.toString("hex");
+        }
+    }
+
+    if (encoded.length !== 32) {
+        return null;
+    }
+
+    const word = new BN(encoded);
+    switch (keyDetail.type) {
+        case LibSdbTypes.VariableType.Boolean:
+            return word.isZero() ? "false" : "true";
+        case LibSdbTypes.VariableType.Address:
+            return "0x" + word.toString(16, 40);
+        case LibSdbTypes.VariableType.UnsignedInteger:
+            return word.toString(10);
+        case LibSdbTypes.VariableType.Integer:
+            return word.fromTwos(256).toString(10);
+        case LibSdbTypes.VariableType.FixedByteArray:
+            return "0x" + encoded.slice(0, keyDetail.storageLength).toString("hex");
+        case LibSdbTypes.VariableType.Enum:
+            if (keyDetail instanceof LibSdbTypes.EnumDetail && keyDetail.definition && word.ltn(keyDetail.definition.values.length)) {
+                return keyDetail.definition.values[word.toNumber()];
+            }
+            return word.toString(10);
+        default:
+            return null;
+    }
+}
+
+export function mappingValuePosition(key: Buffer, slot: BN): BN {
+    return keccak256(Buffer.concat([key, slot.toArrayLike(Buffer, "be", 32)]));
+}
\ No newline at end of file
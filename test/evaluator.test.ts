@@ -0,0 +1,46 @@
+import * as assert from "assert";
+import { BN } from "bn.js";
+import { LibSdbTypes } from "../src/types/types";
+import { LibSdbRuntime } from "../src/runtime";
+
+const word = (value: number | BN) => new BN(value).toArrayLike(Buffer, "be", 32);
+
+// the step the hook reports when an evaluation reverts with `Error(reason)` at 0x80 in memory
+function revertStep(reason: string): any {
+    const data = Buffer.concat([Buffer.from("08c379a0", "hex"), word(32), word(Buffer.byteLength(reason)), Buffer.from(reason, "utf8"), Buffer.alloc(32)]);
+    const memory = new Array(0x80).fill(0).concat(Array.from(data));
+
+    return {
+        opcode: { name: "REVERT" },
+        exceptionError: { error: "revert" },
+        stack: [word(data.length), word(0x80)],
+        memory: memory,
+        depth: 0
+    };
+}
+
+describe("evaluator", () => {
+    let runtime: any;
+
+    before(() => {
+        runtime = new LibSdbRuntime();
+    });
+
+    describe("exceptions", () => {
+        it("has no error when the evaluation finished", () => {
+            assert.strictEqual(runtime._evaluator.evaluationException({ stack: [], memory: [] }), null);
+        });
+
+        it("reports the reason of a reverting evaluation", () => {
+            const error = runtime._evaluator.evaluationException(revertStep("Not enough"));
+            assert.ok(error instanceof LibSdbTypes.EvaluationError);
+            assert.strictEqual(error.kind, LibSdbTypes.EvaluationErrorKind.Revert);
+            assert.strictEqual(error.message, "revert: Not enough");
+        });
+
+        it("reports running out of gas", () => {
+            const error = runtime._evaluator.evaluationException({ opcode: { name: "SSTORE" }, exceptionError: "out of gas", stack: [], memory: [] });
+            assert.strictEqual(error.kind, LibSdbTypes.EvaluationErrorKind.OutOfGas);
+        });
+    });
+});
\ No newline at end of file
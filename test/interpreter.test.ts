@@ -0,0 +1,93 @@
+import * as assert from "assert";
+import { LibSdbTypes } from "../src/types/types";
+import { LibSdbRuntime } from "../src/runtime";
+import { LibSdbInterpreter, UnsupportedExpressionError } from "../src/interpreter";
+
+function variable(name: string, type: string, value: string, bits?: number): LibSdbTypes.DecodedVariable {
+    return <LibSdbTypes.DecodedVariable> {
+        name: name,
+        type: type,
+        variablesReference: 0,
+        value: value,
+        result: value,
+        bits: bits
+    };
+}
+
+// the error the promise rejects with
+async function rejection(promise: Promise<any>): Promise<Error> {
+    try {
+        await promise;
+    }
+    catch (e) {
+        return e;
+    }
+
+    throw new Error("Expected a rejection");
+}
+
+const variables: { [name: string]: LibSdbTypes.DecodedVariable } = {
+    small: variable("small", "uint", "255", 8),
+    signed: variable("signed", "int", "-128", 8),
+    large: variable("large", "uint", "1000", 256),
+    flag: variable("flag", "bool", "true"),
+    owner: variable("owner", "address", "0x00000000000000000000000000000000000000aB")
+};
+
+// (expression, expected value)
+const cases: [string, string][] = [
+    // arithmetic wraps around within the width of the variables involved
+    ["small + 1", "0"],
+    ["small * 2 + 3", "1"],
+    ["signed - 1", "127"],
+    ["-signed", "-128"],
+    ["large + small", "1255"],
+    ["large / 3", "333"],
+    ["large % 7", "6"],
+
+    // literals
+    ["2 ** 8", "256"],
+    ["1.5 ether", "1500000000000000000"],
+    ["2 days", "172800"],
+    ["0x10 == 16", "true"],
+
+    // comparisons and boolean logic
+    ["small > 10 && flag", "true"],
+    ["!flag || large < 10", "false"],
+    ["large >= 1000 ? small : 0", "255"],
+    ["owner == 0xab", "true"],
+];
+
+describe("interpreter", () => {
+    let interpreter: LibSdbInterpreter;
+
+    before(() => {
+        new LibSdbRuntime();
+        interpreter = new LibSdbInterpreter();
+
+        // only plain identifiers, from the table above
+        (<any> interpreter).resolveVariable = async (node: any) => node.type === "Identifier" && node.name in variables ? variables[node.name] : null;
+    });
+
+    for (const [expression, expected] of cases) {
+        it("evaluates " + expression + " to " + expected, async () => {
+            const result = await interpreter.evaluate(expression, 0);
+            assert.strictEqual(result.value, expected);
+            assert.strictEqual(result.name, expression);
+        });
+    }
+
+    it("short circuits boolean logic", async () => {
+        assert.strictEqual((await interpreter.evaluate("flag || unknown", 0)).value, "true");
+    });
+
+    it("leaves what it can't interpret to the vm", async () => {
+        for (const expression of ["unknown + 1", "f(1)", "small = 1", "0 - 1", "~small"]) {
+            assert.ok((await rejection(interpreter.evaluate(expression, 0))) instanceof UnsupportedExpressionError, expression);
+        }
+    });
+
+    it("fails on division by zero", async () => {
+        assert.strictEqual((await rejection(interpreter.evaluate("large / 0", 0))).message, "Division by zero");
+    });
+});
\ No newline at end of file
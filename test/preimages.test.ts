@@ -0,0 +1,36 @@
+import * as assert from "assert";
+import { BN } from "bn.js";
+import { LibSdbPreimageRecorder } from "../src/preimages";
+
+const word = (value: number | BN) => new BN(value).toArrayLike(Buffer, "be", 32);
+
+// SHA3 of `length` bytes of memory at `offset`, the stack is bottom first like the hook sends it
+function hashStep(offset: BN, length: BN, memory: Buffer): any {
+    return {
+        opcode: { name: "SHA3" },
+        stack: [length.toArrayLike(Buffer, "be", 32), offset.toArrayLike(Buffer, "be", 32)],
+        memory: Array.from(memory)
+    };
+}
+
+describe("preimages", () => {
+    it("records the key hashed with a mapping's slot", () => {
+        const recorder = new LibSdbPreimageRecorder();
+        recorder.recordStep("ab", hashStep(new BN(0), new BN(64), Buffer.concat([word(42), word(3)])));
+        assert.deepStrictEqual(recorder.keys("ab", new BN(3)), [word(42)]);
+    });
+
+    it("ignores inputs longer than a key and a slot", () => {
+        const recorder = new LibSdbPreimageRecorder();
+        recorder.recordStep("ab", hashStep(new BN(0), new BN(128), Buffer.concat([word(1), word(2), word(42), word(3)])));
+        assert.deepStrictEqual(recorder.keys("ab", new BN(3)), []);
+    });
+
+    it("ignores offsets and lengths outside of memory", () => {
+        const recorder = new LibSdbPreimageRecorder();
+        recorder.recordStep("ab", hashStep(new BN(0), new BN(1).shln(200), Buffer.concat([word(42), word(3)])));
+        recorder.recordStep("ab", hashStep(new BN(1).shln(60), new BN(64), Buffer.concat([word(42), word(3)])));
+        recorder.recordStep("ab", hashStep(new BN(32), new BN(64), Buffer.concat([word(42), word(3)])));
+        assert.deepStrictEqual(recorder.keys("ab", new BN(3)), []);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,38 @@
+import * as assert from "assert";
+import { BN } from "bn.js";
+import { LibSdbRuntime } from "../src/runtime";
+
+// stack is given top first, the hook sends it bottom first
+function callStep(stack: BN[], memory: number[]): any {
+    return {
+        opcode: { name: "CALL" },
+        stack: stack.slice().reverse().map((value) => value.toArrayLike(Buffer, "be", 32)),
+        memory: memory
+    };
+}
+
+describe("runtime", () => {
+    let runtime: any;
+
+    before(() => {
+        runtime = new LibSdbRuntime();
+    });
+
+    describe("call arguments", () => {
+        const address = new BN("00000000000000000000000000000000000000ab", 16);
+
+        it("reads the calldata of a call out of memory", () => {
+            runtime.processCallOpcode(callStep([new BN(1000), address, new BN(0), new BN(2), new BN(3), new BN(0), new BN(0)], [0, 0, 0x12, 0x34, 0x56]));
+            assert.strictEqual(runtime._pendingCall.calldata, "0x123456");
+            assert.strictEqual(runtime._pendingCall.address, address.toString(16, 40));
+        });
+
+        it("has no calldata when the arguments are outside of memory", () => {
+            runtime.processCallOpcode(callStep([new BN(1000), address, new BN(0), new BN(0), new BN(1).shln(200), new BN(0), new BN(0)], [0, 0, 0x12]));
+            assert.strictEqual(runtime._pendingCall.calldata, null);
+
+            runtime.processCallOpcode(callStep([new BN(1000), address, new BN(0), new BN(1).shln(100), new BN(1), new BN(0), new BN(0)], [0, 0, 0x12]));
+            assert.strictEqual(runtime._pendingCall.calldata, null);
+        });
+    });
+});
\ No newline at end of file
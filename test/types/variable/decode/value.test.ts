@@ -0,0 +1,154 @@
+import * as assert from "assert";
+import { BN } from "bn.js";
+import { LibSdbTypes } from "../../../../src/types/types";
+import { LibSdbRuntime } from "../../../../src/runtime";
+import { VariableProcessor } from "../../../../src/types/variable/definition/processor";
+import { decode } from "../../../../src/types/variable/decode/value";
+
+const zeros = (n: number) => "0".repeat(n);
+const ones = (n: number) => "f".repeat(n);
+
+// (type, raw word as it sits on the stack, expected string)
+const cases: [string, string, string][] = [
+    // only the low N bits count, whatever is above them is ignored
+    ["uint8", "ff", "255"],
+    ["uint8", "1ff", "255"],
+    ["uint16", "ffff0102", "258"],
+    ["uint24", "ab000001", "1"],
+    ["uint", "2a", "42"],
+    ["uint256", ones(64), "115792089237316195423570985008687907853269984665640564039457584007913129639935"],
+
+    // sign extended from the Nth bit
+    ["int8", "7f", "127"],
+    ["int8", "80", "-128"],
+    ["int8", "ff", "-1"],
+    ["int8", "12ff", "-1"],
+    ["int8", "100", "0"],
+    ["int16", "fffe", "-2"],
+    ["int16", "ffff8000", "-32768"],
+    ["int", ones(64), "-1"],
+    ["int256", "8" + zeros(63), "-57896044618658097711785492504343953926634992332820282019728792003956564819968"],
+
+    // a single byte
+    ["bool", "1", "true"],
+    ["bool", "0", "false"],
+    ["bool", "100", "false"],
+    ["bool", "ff01", "true"],
+
+    // left aligned, the first N bytes of the word
+    ["bytes1", "ab" + zeros(62), "0xab"],
+    ["bytes2", "0001" + zeros(60), "0x0001"],
+    ["bytes4", "deadbeef" + zeros(56), "0xdeadbeef"],
+    ["bytes4", "deadbeef" + ones(56), "0xdeadbeef"],
+    ["bytes32", zeros(62) + "01", "0x" + zeros(62) + "01"],
+
+    // the integer value over 10^decimals, padded with zeros when it's less than one
+    ["ufixed16x2", "3039", "123.45"],
+    ["ufixed8x2", "5", "0.05"],
+    ["ufixed8x2", "64", "1"],
+    ["ufixed8x2", "1ff", "2.55"],
+    ["ufixed", "de0b6b3a7640000", "1"],
+    ["ufixed128x18", "1", "0.000000000000000001"],
+    ["fixed8x1", "f1", "-1.5"],
+    ["fixed8x1", "ff", "-0.1"],
+    ["fixed16x3", "fc18", "-1"],
+    ["fixed", "ffffffffffffffffeb2eedf284ea0000", "-1.5"],
+    ["fixed", ones(32) + "ffffffffffffffffeb2eedf284ea0000", "-1.5"],
+
+    // the index into the definition's values
+    ["enum Test.Color", "0", "Red"],
+    ["enum Test.Color", "2", "Blue"],
+    ["enum Test.Color", "102", "Blue"],
+    ["enum Test.Color", "3", "(invalid enum value) 3"],
+
+    // the low 20 bytes
+    ["address", "1234", "0x" + zeros(36) + "1234"],
+    ["address", ones(24) + zeros(38) + "ab", "0x" + zeros(38) + "ab"],
+];
+
+// bytes the type takes up in storage, which is also the width decoding masks to
+const storageLengths: [string, number][] = [
+    ["bool", 1],
+    ["uint8", 1],
+    ["uint", 32],
+    ["int24", 3],
+    ["bytes4", 4],
+    ["fixed", 16],
+    ["ufixed8x2", 1],
+    ["enum Test.Color", 1],
+    ["address", 20],
+    ["function (uint256) internal returns (bool)", 8],
+    ["function (uint256) external", 24],
+    ["function () view external returns (uint256, bool)", 24],
+];
+
+function processType(typeName: string): LibSdbTypes.ValueDetail | LibSdbTypes.EnumDetail {
+    let variable = new LibSdbTypes.Variable();
+    variable.name = "test";
+    variable.originalType = typeName;
+
+    const detail = new VariableProcessor(variable, new BN(0), 0).processDetails(typeName);
+    if (!(detail instanceof LibSdbTypes.ValueDetail)) {
+        throw new Error("Expected a value type for " + typeName);
+    }
+
+    return detail;
+}
+
+describe("decode/value", () => {
+    const address = "ab" + zeros(36) + "cd";
+
+    before(() => {
+        const runtime = new LibSdbRuntime();
+
+        let contract = new LibSdbTypes.Contract();
+        contract.name = "Test";
+        let color = new LibSdbTypes.EnumDefinition("Color");
+        color.values = ["Red", "Green", "Blue"];
+        contract.enumDefinitions.set(color.name, color);
+        contract.functionEntryPoints.set(300, "transfer");
+        contract.functionSelectors.set("transfer(uint256)", "12514bba");
+        runtime._contractsByName.set(contract.name, contract);
+        runtime._contractsByAddress.set(address, contract);
+    });
+
+    describe("decode", () => {
+        for (const [typeName, raw, expected] of cases) {
+            it("decodes " + typeName + " 0x" + raw + " as " + expected, () => {
+                assert.strictEqual(decode(processType(typeName), new BN(raw, 16)), expected);
+            });
+        }
+    });
+
+    describe("functions", () => {
+        const internal = processType("function (uint256) internal");
+        const external = processType("function (uint256) external");
+
+        it("decodes an internal function to the function at its pc", () => {
+            // only the low 4 bytes are the pc
+            assert.strictEqual(decode(internal, new BN("abcd" + "0000012c", 16), address), "Test.transfer");
+        });
+
+        it("decodes an internal function without a known entry point to its pc", () => {
+            assert.strictEqual(decode(internal, new BN(7), address), "(internal function at pc 7)");
+            assert.strictEqual(decode(internal, new BN(0), address), "(unassigned function)");
+        });
+
+        it("decodes an external function to its selector and address", () => {
+            assert.strictEqual(decode(external, new BN(address + "12514bba", 16)), "Test.transfer(uint256) @ 0x" + address);
+            assert.strictEqual(decode(external, new BN(zeros(38) + "cd" + "deadbeef", 16)), "0xdeadbeef @ 0x" + zeros(38) + "cd");
+        });
+
+        it("decodes a left aligned external function", () => {
+            assert.strictEqual(decode(external, new BN(address + "12514bba" + zeros(16), 16)), "Test.transfer(uint256) @ 0x" + address);
+        });
+    });
+
+    describe("storage length", () => {
+        for (const [typeName, storageLength] of storageLengths) {
+            it(typeName + " takes up " + storageLength + " bytes", () => {
+                assert.strictEqual(processType(typeName).storageLength, storageLength);
+            });
+        }
+    });
+});
\ No newline at end of file
@@ -0,0 +1,178 @@
+import * as assert from "assert";
+import { BN } from "bn.js";
+import { LibSdbTypes } from "../../../../src/types/types";
+import { LibSdbRuntime } from "../../../../src/runtime";
+import { VariableProcessor } from "../../../../src/types/variable/definition/processor";
+import { keccak256 } from "../../../../src/utils/storage";
+
+function processMemoryVariable(typeName: string): LibSdbTypes.ArrayDetail {
+    let variable = new LibSdbTypes.Variable();
+    variable.name = "test";
+    variable.originalType = typeName;
+    variable.position = 0;
+
+    new VariableProcessor(variable, new BN(0), 0).applyType("memory", "VariableDeclaration");
+    if (!(variable.detail instanceof LibSdbTypes.ArrayDetail)) {
+        throw new Error("Expected an array type for " + typeName);
+    }
+
+    return variable.detail;
+}
+
+function processStateVariable(typeName: string, slot: number): LibSdbTypes.ArrayDetail {
+    let variable = new LibSdbTypes.Variable();
+    variable.name = "test";
+    variable.originalType = typeName;
+    variable.isStateVariable = true;
+
+    new VariableProcessor(variable, new BN(slot), 0).applyType("default", "VariableDeclaration");
+    if (!(variable.detail instanceof LibSdbTypes.ArrayDetail)) {
+        throw new Error("Expected an array type for " + typeName);
+    }
+
+    return variable.detail;
+}
+
+// answers storage requests from the given slots, anything else is zero
+function storageInterface(slots: [BN, Buffer][]): any {
+    const storage = new Map<string, Buffer>(slots.map(([slot, value]): [string, Buffer] => [slot.toString(16, 64), value]));
+
+    return {
+        requestStorage: async (address: string, slot: Buffer) => ({ value: storage.get(slot.toString("hex")) || Buffer.alloc(32) })
+    };
+}
+
+const dataSlot = (slot: number, index: number = 0) => keccak256(new BN(slot).toArrayLike(Buffer, "be", 32)).addn(index);
+const word = (value: number | BN) => new BN(value).toArrayLike(Buffer, "be", 32);
+
+// memory with the given words written from 0x80 (after the scratch space, free memory pointer, and zero slot)
+function memoryWith(words: BN[]): number[] {
+    let memory: number[] = new Array(0x80).fill(0);
+    for (const word of words) {
+        memory = memory.concat(Array.from(word.toArrayLike(Buffer, "be", 32)));
+    }
+
+    return memory;
+}
+
+describe("detail/array", () => {
+    let runtime: any;
+
+    before(() => {
+        runtime = new LibSdbRuntime();
+    });
+
+    describe("memory", () => {
+        it("decodes a dynamic array through its pointer", async () => {
+            const detail = processMemoryVariable("uint256[] memory");
+            const stack = [new BN(0x80)];
+            const memory = memoryWith([new BN(2), new BN(7), new BN(9)]);
+
+            const decoded = await detail.decode(stack, memory, <any> null, "");
+            assert.strictEqual(decoded.value, "Array(2)");
+            assert.strictEqual(decoded.indexedVariables, 2);
+
+            const children = await detail.decodeChildren(stack, memory, <any> null, "");
+            assert.deepStrictEqual(children.map((child) => child.value), ["2", "7", "9"]);
+        });
+
+        it("shows an invalid location for a pointer outside of memory", async () => {
+            const detail = processMemoryVariable("uint256[] memory");
+            const memory = memoryWith([new BN(2), new BN(7), new BN(9)]);
+
+            for (const pointer of [new BN(1).shln(200), new BN(0x1000)]) {
+                const decoded = await detail.decode([pointer], memory, <any> null, "");
+                assert.strictEqual(decoded.value, "(invalid location)");
+                assert.strictEqual(decoded.variablesReference, 0);
+
+                const children = await detail.decodeChildren([pointer], memory, <any> null, "");
+                assert.deepStrictEqual(children.map((child) => child.value), ["0"]);
+            }
+        });
+
+        it("shows an invalid location for a length that doesn't fit in memory", async () => {
+            const detail = processMemoryVariable("uint256[] memory");
+
+            for (const length of [new BN(1).shln(100), new BN(3)]) {
+                const memory = memoryWith([length, new BN(7), new BN(9)]);
+                const decoded = await detail.decode([new BN(0x80)], memory, <any> null, "");
+                assert.strictEqual(decoded.value, "(invalid location)");
+                assert.strictEqual(decoded.indexedVariables, undefined);
+            }
+        });
+
+        it("bounds the length of bytes by memory", async () => {
+            const detail = processMemoryVariable("bytes memory");
+            const data = new BN("abcd" + "0".repeat(60), 16);
+
+            let decoded = await detail.decode([new BN(0x80)], memoryWith([new BN(2), data]), <any> null, "");
+            assert.strictEqual(decoded.value, "0xabcd");
+
+            decoded = await detail.decode([new BN(0x80)], memoryWith([new BN(33), data]), <any> null, "");
+            assert.strictEqual(decoded.value, "(invalid location)");
+        });
+    });
+
+    describe("storage", () => {
+        it("reads the length and elements of a dynamic array", async () => {
+            const detail = processStateVariable("uint256[]", 2);
+            const _interface = storageInterface([[new BN(2), word(3)], [dataSlot(2, 0), word(10)], [dataSlot(2, 1), word(11)], [dataSlot(2, 2), word(12)]]);
+
+            const decoded = await detail.decode([], [], _interface, "");
+            assert.strictEqual(decoded.value, "Array(3)");
+            assert.strictEqual(decoded.indexedVariables, 3);
+
+            let children = await detail.decodeChildren([], [], _interface, "");
+            assert.deepStrictEqual(children.map((child) => child.value), ["3", "10", "11", "12"]);
+
+            // paged requests only have the elements
+            children = await detail.decodeChildren([], [], _interface, "", 1, 1);
+            assert.deepStrictEqual(children.map((child) => [child.name, child.value]), [["1", "11"]]);
+        });
+
+        it("reads elements packed into a slot", async () => {
+            const detail = processStateVariable("uint8[]", 0);
+            const _interface = storageInterface([[new BN(0), word(3)], [dataSlot(0), word(0x030201)]]);
+
+            const children = await detail.decodeChildren([], [], _interface, "");
+            assert.deepStrictEqual(children.map((child) => child.value), ["3", "1", "2", "3"]);
+        });
+
+        it("reads a short string stored with its length", async () => {
+            const detail = processStateVariable("string", 0);
+            let slot = Buffer.alloc(32);
+            Buffer.from("héllo", "utf8").copy(slot);
+            slot[31] = Buffer.byteLength("héllo") * 2;
+
+            const decoded = await detail.decode([], [], storageInterface([[new BN(0), slot]]), "");
+            assert.strictEqual(decoded.value, "\"héllo\"");
+            assert.strictEqual(decoded.variablesReference, 0);
+        });
+
+        it("reads long bytes from their data slots", async () => {
+            const detail = processStateVariable("bytes", 1);
+            const data = Buffer.alloc(40, 0xab);
+            const _interface = storageInterface([[new BN(1), word(40 * 2 + 1)], [dataSlot(1, 0), data.slice(0, 32)], [dataSlot(1, 1), Buffer.concat([data.slice(32), Buffer.alloc(24)])]]);
+
+            const decoded = await detail.decode([], [], _interface, "");
+            assert.strictEqual(decoded.value, "0x" + data.toString("hex"));
+        });
+    });
+
+    describe("formats", () => {
+        it("keeps the format of an element when the elements are recreated", async () => {
+            const detail = processMemoryVariable("uint256[] memory");
+            const memory = memoryWith([new BN(2), new BN(10), new BN(11), new BN(2), new BN(12), new BN(13)]);
+
+            let children = await detail.decodeChildren([new BN(0x80)], memory, <any> null, "");
+            runtime.setVariableFormat(children[2].id, detail.id, children[2].name, { hex: true });
+            runtime.formatVariables(detail.id, children, {});
+            assert.deepStrictEqual(children.map((child) => child.value), ["2", "10", "0xb"]);
+
+            // the array moved, its elements are created again for the new location
+            children = await detail.decodeChildren([new BN(0xe0)], memory, <any> null, "");
+            runtime.formatVariables(detail.id, children, {});
+            assert.deepStrictEqual(children.map((child) => child.value), ["2", "12", "0xd"]);
+        });
+    });
+});
\ No newline at end of file
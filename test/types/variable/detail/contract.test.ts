@@ -0,0 +1,94 @@
+import * as assert from "assert";
+import { BN } from "bn.js";
+import { LibSdbTypes } from "../../../../src/types/types";
+import { LibSdbRuntime } from "../../../../src/runtime";
+import { VariableProcessor } from "../../../../src/types/variable/definition/processor";
+
+function processStackVariable(typeName: string): LibSdbTypes.ContractDetail {
+    let variable = new LibSdbTypes.Variable();
+    variable.name = "test";
+    variable.originalType = typeName;
+    variable.position = 0;
+
+    new VariableProcessor(variable, new BN(0), 0).applyType("default", "VariableDeclaration");
+    if (!(variable.detail instanceof LibSdbTypes.ContractDetail)) {
+        throw new Error("Expected a contract type for " + typeName);
+    }
+
+    return variable.detail;
+}
+
+function stateVariable(name: string, typeName: string, slot: number): LibSdbTypes.Variable {
+    let variable = new LibSdbTypes.Variable();
+    variable.name = name;
+    variable.originalType = typeName;
+    variable.isStateVariable = true;
+    variable.scope = new LibSdbTypes.AstScope();
+    new VariableProcessor(variable, new BN(slot), 0).applyType("default", "VariableDeclaration");
+
+    return variable;
+}
+
+// answers storage requests with the slot number plus the address' last byte
+const storageInterface: any = {
+    requestStorage: async (address: string, slot: Buffer) => ({ value: new BN(slot).add(new BN(address.substr(-2), 16)).toArrayLike(Buffer, "be", 32) })
+};
+
+describe("detail/contract", () => {
+    const tokenAddress = "0".repeat(38) + "10";
+    const otherTokenAddress = "0".repeat(38) + "20";
+
+    before(() => {
+        const runtime = new LibSdbRuntime();
+
+        let contract = new LibSdbTypes.Contract();
+        contract.name = "Token";
+        contract.stateVariables = [stateVariable("supply", "uint256", 0), stateVariable("owner", "address", 1)];
+        runtime._contractsByAddress.set(tokenAddress, contract);
+        runtime._contractsByAddress.set(otherTokenAddress, contract);
+    });
+
+    it("decodes the address it holds", async () => {
+        const detail = processStackVariable("contract Token");
+
+        const decoded = await detail.decode([new BN("ab", 16)], [], <any> null, "");
+        assert.strictEqual(decoded.value, "Contract Token (0x" + "0".repeat(38) + "ab)");
+        assert.strictEqual(decoded.variablesReference, 0);
+    });
+
+    it("expands into the state of a known contract, decoded against its storage", async () => {
+        const detail = processStackVariable("contract Token");
+
+        const decoded = await detail.decode([new BN(tokenAddress, 16)], [], storageInterface, "");
+        assert.strictEqual(decoded.variablesReference, detail.id);
+
+        const children = await detail.decodeChildren([new BN(tokenAddress, 16)], [], storageInterface, "");
+        assert.deepStrictEqual(children.map((child) => [child.name, child.value]), [["supply", "16"], ["owner", "0x" + "0".repeat(38) + "11"]]);
+    });
+
+    it("keeps the state variables of each address it held", async () => {
+        const detail = processStackVariable("contract Token");
+
+        await detail.decode([new BN(tokenAddress, 16)], [], storageInterface, "");
+        const tokenVariables = detail.stateVariables;
+        await detail.decode([new BN(otherTokenAddress, 16)], [], storageInterface, "");
+        assert.notStrictEqual(detail.stateVariables, tokenVariables);
+
+        const children = await detail.decodeChildren([new BN(otherTokenAddress, 16)], [], storageInterface, "");
+        assert.strictEqual(children[0].value, "32");
+
+        // references handed out for the first address are still good
+        await detail.decode([new BN(tokenAddress, 16)], [], storageInterface, "");
+        assert.strictEqual(detail.stateVariables, tokenVariables);
+    });
+
+    it("doesn't use up ids each time it's decoded", async () => {
+        const detail = processStackVariable("contract Token");
+
+        await detail.decode([new BN(1)], [], <any> null, "");
+        const nextId = LibSdbTypes.Variable.nextId;
+        await detail.decode([new BN(2)], [], <any> null, "");
+        await detail.decodeChildren([new BN(3)], [], <any> null, "");
+        assert.strictEqual(LibSdbTypes.Variable.nextId, nextId);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,55 @@
+import * as assert from "assert";
+import { BN } from "bn.js";
+import { decodeRevertReason, dataRange } from "../../src/utils/abi";
+
+const word = (value: number | BN) => new BN(value).toArrayLike(Buffer, "be", 32);
+
+// `Error(string)` with the given string offset and length words, at `offset` in memory
+function revertMemory(offset: number, reason: string, stringOffset: BN = new BN(32), stringLength: BN = new BN(Buffer.byteLength(reason))): number[] {
+    const data = Buffer.concat([Buffer.from("08c379a0", "hex"), word(stringOffset), word(stringLength), Buffer.from(reason, "utf8"), Buffer.alloc(32)]);
+    let memory: number[] = new Array(offset).fill(0);
+
+    return memory.concat(Array.from(data));
+}
+
+describe("utils/abi", () => {
+    describe("dataRange", () => {
+        it("gives the offset and length of a range within the data", () => {
+            assert.deepStrictEqual(dataRange(new BN(4), new BN(8), 12), { offset: 4, length: 8 });
+        });
+
+        it("rejects ranges past the end of the data", () => {
+            assert.strictEqual(dataRange(new BN(4), new BN(9), 12), null);
+        });
+
+        it("rejects words that don't fit in a number", () => {
+            assert.strictEqual(dataRange(new BN(1).shln(255), new BN(0), 12), null);
+            assert.strictEqual(dataRange(new BN(0), new BN(1).shln(64), 12), null);
+        });
+    });
+
+    describe("decodeRevertReason", () => {
+        it("decodes the reason of a revert", () => {
+            const memory = revertMemory(0x80, "Not enough");
+            const stack = [new BN(4 + 32 + 32 + 32), new BN(0x80)];
+            assert.strictEqual(decodeRevertReason(stack, memory), "Not enough");
+        });
+
+        it("has no reason when the offset or length don't fit in memory", () => {
+            const memory = revertMemory(0x80, "Not enough");
+            assert.strictEqual(decodeRevertReason([new BN(100), new BN(1).shln(255)], memory), null);
+            assert.strictEqual(decodeRevertReason([new BN(1).shln(200), new BN(0x80)], memory), null);
+            assert.strictEqual(decodeRevertReason([new BN(memory.length), new BN(0x80)], memory), null);
+        });
+
+        it("has no reason when the string's offset is out of range", () => {
+            const memory = revertMemory(0, "Not enough", new BN(1).shln(128));
+            assert.strictEqual(decodeRevertReason([new BN(100), new BN(0)], memory), null);
+        });
+
+        it("stops at the end of the data when the string's length is too large", () => {
+            const memory = revertMemory(0, "abc", new BN(32), new BN(1).shln(128));
+            assert.strictEqual(decodeRevertReason([new BN(4 + 32 + 32 + 3), new BN(0)], memory), "abc");
+        });
+    });
+});
\ No newline at end of file